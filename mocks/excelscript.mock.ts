@@ -12,8 +12,298 @@
 // Notes:
 // - No import/export keywords are used for Office Script compatibility.
 // - Attach to globalThis if needed for Node.js/ts-node environments.
+// - Worksheets store the values and the format (fill color, font color, bold) of each cell in memory,
+//   enough for the WorksheetReporter and its tests. Addresses support the A1 and A1:C3 notations, and lists of
+//   them separated by commas for getRanges (e.g. "A1:C1,A3:C4").
+// - Formulas are not evaluated: a string value starting with "=" is stored as a formula and its value is empty.
+//   As in Excel, a leading apostrophe stores the rest of the string as text (e.g. "'=1+1").
 
 export namespace ExcelScript {
+  // Maximum size of a worksheet, as in Excel
+  const MAX_ROWS = 1048576
+  const MAX_COLUMNS = 16384
+
+  // Value and format of a single cell
+  interface Cell {
+    value: string | number | boolean
+    formula?: string
+    fill?: string
+    fontColor?: string
+    bold?: boolean
+  }
+
   export class Workbook {
+    private worksheets: Worksheet[] = []
+
+    getWorksheet(name: string): Worksheet | undefined {
+      return this.worksheets.find(ws => ws.getName() === name)
+    }
+
+    getWorksheets(): Worksheet[] {
+      return this.worksheets.slice()
+    }
+
+    addWorksheet(name?: string): Worksheet {
+      const wsName = name === undefined ? `Sheet${this.worksheets.length + 1}` : name
+      if (this.getWorksheet(wsName)) {
+        throw new Error(`A worksheet with the name '${wsName}' already exists.`)
+      }
+      const ws = new Worksheet(wsName, () => this.worksheets = this.worksheets.filter(w => w !== ws))
+      this.worksheets.push(ws)
+      return ws
+    }
+  }
+
+  export class Worksheet {
+    private cells = new Map<string, Cell>()
+
+    constructor(private name: string, private onDelete: () => void) {}
+
+    getName(): string {
+      return this.name
+    }
+
+    delete(): void {
+      this.onDelete()
+    }
+
+    // Returns the range of the address (e.g. "A1" or "A1:C3"), or the whole worksheet if omitted
+    getRange(address?: string): Range {
+      if (address === undefined) {
+        return new Range(this, 0, 0, MAX_ROWS, MAX_COLUMNS)
+      }
+      const match = /^([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?$/.exec(address.replace(/\$/g, "").toUpperCase())
+      if (!match) {
+        throw new Error(`Invalid address: ${address}`)
+      }
+      const row = Number(match[2]) - 1, col = Worksheet.columnIndex(match[1])
+      const lastRow = match[4] ? Number(match[4]) - 1 : row, lastCol = match[3] ? Worksheet.columnIndex(match[3]) : col
+      return new Range(this, row, col, lastRow - row + 1, lastCol - col + 1)
+    }
+
+    // Returns the ranges of a list of addresses separated by commas, e.g. "A1:C1,A3:C4"
+    getRanges(address: string): RangeAreas {
+      return new RangeAreas(address.split(",").map(part => this.getRange(part.trim())))
+    }
+
+    getRangeByIndexes(startRow: number, startColumn: number, rowCount: number, columnCount: number): Range {
+      return new Range(this, startRow, startColumn, rowCount, columnCount)
+    }
+
+    // Returns the range from A1 to the last cell with a value or a format (only a value if valuesOnly is true),
+    // or undefined if the worksheet is empty
+    getUsedRange(valuesOnly: boolean = false): Range | undefined {
+      let lastRow = -1, lastCol = -1
+      this.cells.forEach((cell, key) => {
+        const [row, col] = key.split(",").map(Number)
+        if (!valuesOnly || cell.value !== "" || cell.formula !== undefined) {
+          lastRow = Math.max(lastRow, row)
+          lastCol = Math.max(lastCol, col)
+        }
+      })
+      return lastRow === -1 ? undefined : new Range(this, 0, 0, lastRow + 1, lastCol + 1)
+    }
+
+    // Internal: returns the cell at the indexes, created on demand if create is true
+    cell(row: number, col: number, create: boolean = false): Cell | undefined {
+      const key = `${row},${col}`
+      let cell = this.cells.get(key)
+      if (!cell && create) {
+        cell = { value: "" }
+        this.cells.set(key, cell)
+      }
+      return cell
+    }
+
+    // Internal: removes the cells within the indexes
+    clearCells(row: number, col: number, rowCount: number, columnCount: number): void {
+      Array.from(this.cells.keys()).forEach(key => {
+        const [r, c] = key.split(",").map(Number)
+        if (r >= row && r < row + rowCount && c >= col && c < col + columnCount) {
+          this.cells.delete(key)
+        }
+      })
+    }
+
+    // Internal: converts column letters into a zero-based index, e.g. "A" -> 0, "AA" -> 26
+    static columnIndex(letters: string): number {
+      return letters.split("").reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1
+    }
+
+    // Internal: converts a zero-based column index into letters, e.g. 0 -> "A", 26 -> "AA"
+    static columnLetters(index: number): string {
+      let letters = ""
+      for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters
+      }
+      return letters
+    }
+  }
+
+  export class Range {
+    constructor(private worksheet: Worksheet, private row: number, private col: number,
+      private rowCount: number, private columnCount: number) {}
+
+    getWorksheet(): Worksheet {
+      return this.worksheet
+    }
+
+    getAddress(): string {
+      const first = `${Worksheet.columnLetters(this.col)}${this.row + 1}`
+      const last = `${Worksheet.columnLetters(this.col + this.columnCount - 1)}${this.row + this.rowCount}`
+      const address = this.rowCount === 1 && this.columnCount === 1 ? first : `${first}:${last}`
+      return `${this.worksheet.getName()}!${address}`
+    }
+
+    getRowCount(): number {
+      return this.rowCount
+    }
+
+    getColumnCount(): number {
+      return this.columnCount
+    }
+
+    getValues(): (string | number | boolean)[][] {
+      return this.map((row, col) => {
+        const cell = this.worksheet.cell(row, col)
+        return cell ? cell.value : ""
+      })
+    }
+
+    setValues(values: (string | number | boolean)[][]): void {
+      if (values.length !== this.rowCount || values.some(r => r.length !== this.columnCount)) {
+        throw new Error(`The number of rows or columns in the input array doesn't match the size of the range ${this.getAddress()}.`)
+      }
+      this.map((row, col) => {
+        const cell = this.worksheet.cell(row, col, true)
+        const value = values[row - this.row][col - this.col]
+        delete cell.formula
+        if (typeof value === "string" && value.charAt(0) === "=") {
+          cell.formula = value
+          cell.value = ""
+        } else {
+          cell.value = typeof value === "string" && value.charAt(0) === "'" ? value.slice(1) : value
+        }
+      })
+    }
+
+    // Returns the formulas, or the values of the cells without formula
+    getFormulas(): string[][] {
+      return this.map((row, col) => {
+        const cell = this.worksheet.cell(row, col)
+        return !cell ? "" : cell.formula !== undefined ? cell.formula : String(cell.value)
+      })
+    }
+
+    clear(): void {
+      this.worksheet.clearCells(this.row, this.col, this.rowCount, this.columnCount)
+    }
+
+    getFormat(): RangeFormat {
+      return new RangeFormat(this)
+    }
+
+    // Internal: applies fn to each cell position of the range, by row
+    map<T>(fn: (row: number, col: number) => T): T[][] {
+      const result: T[][] = []
+      for (let r = this.row; r < this.row + this.rowCount; r++) {
+        const line: T[] = []
+        for (let c = this.col; c < this.col + this.columnCount; c++) {
+          line.push(fn(r, c))
+        }
+        result.push(line)
+      }
+      return result
+    }
+
+    // Internal: returns the common value of a cell property, or null if it differs between cells
+    common<K extends keyof Cell>(key: K, empty: Cell[K]): Cell[K] | null {
+      const values = ([] as Cell[K][]).concat(...this.map((row, col) => {
+        const cell = this.worksheet.cell(row, col)
+        return cell && cell[key] !== undefined ? cell[key] : empty
+      }))
+      return values.every(v => v === values[0]) ? values[0] : null
+    }
+
+    // Internal: sets a cell property of all cells
+    setAll<K extends keyof Cell>(key: K, value: Cell[K]): void {
+      this.map((row, col) => this.worksheet.cell(row, col, true)[key] = value)
+    }
+  }
+
+  // Multiple ranges of a worksheet, formatted together
+  export class RangeAreas {
+    constructor(private ranges: Range[]) {}
+
+    getAreaCount(): number {
+      return this.ranges.length
+    }
+
+    getAreas(): Range[] {
+      return this.ranges.slice()
+    }
+
+    getFormat(): RangeFormat {
+      return new RangeFormat(this)
+    }
+
+    // Internal: returns the common value of a cell property, or null if it differs between cells
+    common<K extends keyof Cell>(key: K, empty: Cell[K]): Cell[K] | null {
+      const values = this.ranges.map(range => range.common(key, empty))
+      return values.every(v => v === values[0]) ? values[0] : null
+    }
+
+    // Internal: sets a cell property of all cells
+    setAll<K extends keyof Cell>(key: K, value: Cell[K]): void {
+      this.ranges.forEach(range => range.setAll(key, value))
+    }
+  }
+
+  export class RangeFormat {
+    constructor(private range: Range | RangeAreas) {}
+
+    getFill(): RangeFill {
+      return new RangeFill(this.range)
+    }
+
+    getFont(): RangeFont {
+      return new RangeFont(this.range)
+    }
+
+    // Column widths are not simulated
+    autofitColumns(): void {
+    }
+  }
+
+  export class RangeFill {
+    constructor(private range: Range | RangeAreas) {}
+
+    getColor(): string {
+      return this.range.common("fill", "#FFFFFF") as string
+    }
+
+    setColor(color: string): void {
+      this.range.setAll("fill", color)
+    }
+  }
+
+  export class RangeFont {
+    constructor(private range: Range | RangeAreas) {}
+
+    getBold(): boolean {
+      return this.range.common("bold", false) as boolean
+    }
+
+    setBold(bold: boolean): void {
+      this.range.setAll("bold", bold)
+    }
+
+    getColor(): string {
+      return this.range.common("fontColor", "#000000") as string
+    }
+
+    setColor(color: string): void {
+      this.range.setAll("fontColor", color)
+    }
   }
-}
\ No newline at end of file
+}
@@ -33,20 +33,198 @@
  * - Inherits from the built-in Error class.
  * - Sets the error name to "AssertionError" for easier identification.
  * - Accepts a message parameter describing the assertion failure.
- * @remarks This class is intentionally simple—no extra methods or properties are added, to keep assertion failures clear and unambiguous.
+ * - Optionally carries the `actual` and `expected` values, the `operator` (the name of the assertion, e.g.
+ *   `equals`) and the user message separately, so reporters and tooling can show diffs or re-format the values.
+ *   All `Assert` methods populate them.
+ * @remarks The `actual` and `expected` properties are only present if provided (check them with the `in`
+ *          operator), since `undefined` can be a meaningful value.
  */
 class AssertionError extends Error {
+  /** The actual value of the failed assertion, if provided. */
+  public readonly actual?: unknown
+  /** The expected value of the failed assertion, if provided. */
+  public readonly expected?: unknown
+  /** The name of the failed assertion, e.g. `equals`, `contains` or `throws`. */
+  public readonly operator?: string
+  /** The message provided by the user to the assertion, without the generated details. */
+  public readonly userMessage?: string
+  /** The failures aggregated by `Assert.soft`, if any. */
+  public readonly failures?: AssertionError[]
+
   /** Constructor for `AssertionError`.
    * @param message - A descriptive message that explains the assertion failure.
    *                  This message will be included in the error stack trace.
+   * @param details - (Optional) The `actual` and `expected` values, the `operator`, the `userMessage` and the
+   *                  aggregated `failures`.
+   * @example
+   * ```ts
+   * throw new AssertionError("Expected 1, but got 2", { actual: 2, expected: 1, operator: "equals" })
+   * ```
    */
-  constructor(message: string) {
+  constructor(message: string, details: AssertionErrorDetails = {}) {
     super(message)
     this.name = "AssertionError"
+    if ("actual" in details) {
+      this.actual = details.actual
+    }
+    if ("expected" in details) {
+      this.expected = details.expected
+    }
+    if (details.operator !== undefined) {
+      this.operator = details.operator
+    }
+    if (details.userMessage !== undefined) {
+      this.userMessage = details.userMessage
+    }
+    if (details.failures !== undefined) {
+      this.failures = details.failures
+    }
   }
 }
+
+/** Structured details of an `AssertionError`, see its properties. */
+interface AssertionErrorDetails {
+  actual?: unknown
+  expected?: unknown
+  operator?: string
+  userMessage?: string
+  failures?: AssertionError[]
+}
+
+/**
+ * Tolerance of `Assert.closeTo`: two numbers are close if their difference is at most the greatest of
+ * `absolute` and `relative` times the greatest of their magnitudes.
+ */
+interface Tolerance {
+  /** Maximum absolute difference (default: `0`), e.g. `0.005` for amounts rounded to cents. */
+  absolute?: number
+  /** Maximum difference relative to the magnitude of the values (default: `0`), e.g. `1e-9`. */
+  relative?: number
+}
+
+/** Expected message of the error of `Assert.throws` and `Assert.rejects`: the exact message, a regular expression
+ * to match, or a predicate which must return true. */
+type ExpectedMessage = string | RegExp | ((message: string) => boolean)
+
+/** Options of `Assert.throws` and `Assert.rejects`. */
+interface ThrowsOptions<E = Error> {
+  /** Predicate over the whole error, e.g. to check custom properties; it must return true. It can also use
+   * assertions, their failures are thrown as is. */
+  predicate?: (error: E) => boolean
+  /** If true, thrown values which are not `Error` instances (e.g. strings) are accepted (default: `false`).
+   * The message of a string is the string itself, for other values their string representation. */
+  allowNonError?: boolean
+}
+
+/** Options of the string assertions, such as `Assert.stringEquals`. */
+interface TextOptions {
+  /** If true, letter case is ignored (default: `false`). */
+  ignoreCase?: boolean
+  /** If true, whitespace (spaces, tabs, line breaks) is ignored entirely, e.g. `=SUM( A1 )` equals `=SUM(A1)`
+   * (default: `false`). */
+  ignoreWhitespace?: boolean
+}
+
+/** Value that can be ordered by the comparison assertions, such as `Assert.greaterThan`.
+ * Both operands of a comparison must be of the same kind. */
+type Comparable = number | string | Date
+
+/** Collection accepted by the collection assertions, such as `Assert.sameMembers`. The members of a string are its
+ * characters, the members of a Map are its values (its entries for `Assert.sameMembers`). */
+type Collection<T = unknown> = T[] | string | Set<T> | Map<unknown, T>
+
+/** Result of a custom assertion registered with `Assert.extend`. */
+interface CustomAssertionResult {
+  /** Whether the actual value satisfies the assertion. */
+  pass: boolean
+  /** What is expected of the actual value, completing `Expected (actual) ...`, e.g. `to be a valid cost centre code`.
+   * The message of a negated assertion reads `Expected (actual) not ...`. */
+  description: string
+  /** (Optional) Expected value, set as `expected` of the `AssertionError`. */
+  expected?: unknown
+  /** (Optional) Why the assertion failed, appended to the message, e.g. `the code has 3 digits`. */
+  reason?: string
+}
+
+/** Custom assertion registered with `Assert.extend`: checks the actual value with the arguments passed to
+ * `Assert.satisfies`. */
+type CustomAssertion = (actual: unknown, ...args: unknown[]) => CustomAssertionResult
+
+/** Names of the `Assert` methods available as soft assertions, listed once in `Assert.SOFT_ASSERTIONS`. */
+type SoftAssertName = (typeof Assert)["SOFT_ASSERTIONS"][number]
+
+/** Soft assertions with their own signature: the `Assert` ones narrow types (`asserts`), the soft ones can't. */
+interface SoftAssertSignatures {
+  equals<T>(actual: T, expected: T, message?: string): void
+  isNull(value: unknown, message?: string): void
+  isNotNull<T>(value: T, message?: string): void
+  isTrue(value: unknown, message?: string): void
+  isUndefined(value: unknown, message?: string): void
+  isNotUndefined<T>(value: T, message?: string): void
+  isDefined<T>(value: T, message?: string): void
+  expect<T>(actual: T, message?: string): Expectation<T>
+}
+
+/** Assertions recording their failures instead of throwing, passed to the function of `Assert.soft`: the `Assert`
+ * methods and `expect`. Since they don't throw, they don't narrow types as `Assert.equals` or `Assert.isNotNull` do. */
+type SoftAssert = Pick<typeof Assert, Exclude<SoftAssertName, keyof SoftAssertSignatures>> & SoftAssertSignatures
+
+/** Value of a worksheet cell, as returned by `range.getValues()`. `null` and `undefined` stand for empty cells. */
+type CellValue = string | number | boolean | null | undefined
+
+/** Options of the range assertions, such as `Assert.rangeEquals`. */
+interface RangeOptions {
+  /** Address of the top-left cell of the actual values, used for the cell addresses in failure messages
+   * (default: `A1`). A range address such as `range.getAddress()` (e.g. `Sheet1!B2:D5`) is accepted. */
+  origin?: string
+  /** Tolerance to compare numbers, see `Assert.closeTo` (default: none, numbers must be equal). */
+  tolerance?: number | Tolerance
+  /** If true, an empty string is not equal to `null` or `undefined` (default: `false`, all of them are empty cells). */
+  strictEmpty?: boolean
+}
 // #endregion AssertionError
 
+// #region AsymmetricMatcher
+/**
+ * Matcher which can be nested inside the expected value of `Assert.equals` (and the other assertions using deep
+ * equality) to match a kind of values instead of a single value, e.g. any number or any string matching a regular
+ * expression. Created by `Assert.any`, `Assert.anything`, `Assert.stringMatching` and `Assert.objectContaining`.
+ * @example
+ * ```ts
+ * Assert.equals(row, { id: Assert.any(Number), name: Assert.stringMatching(/^[A-Z]/), notes: Assert.anything() })
+ * ```
+ */
+class AsymmetricMatcher {
+  /** Constructor for `AsymmetricMatcher`.
+   * @param description - Description of the matched values, shown in failure messages, e.g. `Any<Number>`.
+   * @param predicate - Function returning true if a value matches.
+   */
+  constructor(private readonly description: string, private readonly predicate: (value: unknown) => boolean) { }
+
+  /** Checks whether a value matches.
+   * @param value - The value to check.
+   * @returns {boolean} - True if the value matches.
+   */
+  public matches(value: unknown): boolean {
+    return this.predicate(value)
+  }
+
+  /** Returns the description of the matched values, e.g. `Any<Number>`.
+   * @returns The description.
+   */
+  public toString(): string {
+    return this.description
+  }
+
+  /** Returns the description, so the matcher is shown as such when serialized nested in a value.
+   * @returns The description.
+   */
+  public toJSON(): string {
+    return this.description
+  }
+}
+// #endregion AsymmetricMatcher
+
 // #region Assert
 /**
  * Utility class for writing unit-test-style assertions.
@@ -55,54 +233,147 @@ class AssertionError extends Error {
  * an `AssertionError` is thrown and the user can provide a descriptive message.
  */
 class Assert {
+  private static readonly MAX_DIFFERENCES = 10 // Maximum number of differences listed in a failure message
+  private static readonly MAX_PREVIEW_LENGTH = 80 // Maximum length of a value shown in a difference
+  private static readonly MAX_LINE_DIFF_CELLS = 250000 // Maximum size of the line diff table, otherwise lines are listed
+  private static readonly DEFAULT_TOLERANCE: Tolerance = { absolute: 1e-9, relative: 1e-9 } // Tolerance of closeTo
+  private static readonly MAX_GRID_ROWS = 10 // Maximum number of rows of the grid shown by range assertions
+  private static readonly MAX_GRID_COLUMNS = 6 // Maximum number of columns of the grid shown by range assertions
+  private static readonly MAX_GRID_CELL_LENGTH = 20 // Maximum length of a cell of the grid shown by range assertions
+  private static readonly customAssertions = new Map<string, CustomAssertion>() // Registered by Assert.extend
+  private static readonly SOFT_ASSERTIONS = [ // Methods of SoftAssert wrapping the Assert ones
+    "throws", "rejects", "doesNotThrow", "doesNotReject", "equals", "notEquals", "closeTo", "approxEquals", "matches",
+    "doesNotMatch", "startsWith", "endsWith", "containsText", "stringEquals", "matchesObject", "hasProperty", "any",
+    "anything", "stringMatching", "objectContaining", "greaterThan", "greaterThanOrEqual", "lessThan", "lessThanOrEqual",
+    "inRange", "hasDimensions", "rangeEquals", "subRangeEquals", "fail", "isNull", "isNotNull", "isType", "isNotType",
+    "isTrue", "isFalse", "isUndefined", "isNotUndefined", "isDefined", "contains", "includesDeep", "doesNotContain",
+    "sameMembers", "hasLength", "isEmpty", "isNotEmpty", "isSorted", "satisfies", "doesNotSatisfy", "isInstanceOf",
+    "isNotInstanceOf"
+  ] as const
 
   // #region throws
   /**
    * Asserts that the provided function throws an error.
-   * Optionally checks the error type and message.
+   * Optionally checks the error type, the message and the whole error, and returns the error for further assertions.
    * @param fn - A function that is expected to throw an error.
    *             Must be passed as a function reference, e.g. `() => codeThatThrows()`.
    * @param expectedErrorType - (Optional) Expected constructor of the thrown error (e.g., `TypeError`).
-   * @param expectedMessage - (Optional) Exact expected error message.
+   * @param expectedMessage - (Optional) Exact expected error message, a regular expression to match,
+   *                          or a predicate over the message.
    * @param message - (Optional) Additional prefix for the error message if the assertion fails.
-   * @returns {asserts fn is () => never} - Asserts that fn will throw an error if the assertion passes.
-   * @throws AssertionError - If no error is thrown, or if the thrown error does not match the expected type or message.
+   * @param options - (Optional) A predicate over the whole error, and whether to accept thrown values which are
+   *                  not `Error` instances, see `ThrowsOptions`.
+   * @returns The thrown error, if the assertion passes.
+   * @throws AssertionError - If no error is thrown, or if the thrown error does not match the expected type, message
+   *                          or predicate.
    * @example
    * ```ts
    * Assert.throws(() => {
    *   throw new TypeError("Invalid")
    * }, TypeError, "Invalid", "Should throw TypeError")
+   * Assert.throws(() => parse("x"), SyntaxError, /unexpected token/i)
+   * const error = Assert.throws(() => save(), HttpError, undefined, "", { predicate: e => e.status === 404 })
+   * Assert.equals(error.url, "https://example.com")
+   * Assert.throws(() => { throw "Boom!" }, undefined, "Boom!", "", { allowNonError: true })
    * ```
    * @see {@link Assert.doesNotThrow} for the opposite assertion.
    */
-  public static throws(
-    fn: () => void,
-    expectedErrorType?: Function,
-    expectedMessage?: string,
-    message: string = ""
-  ): asserts fn is () => never {
+  public static throws<E = Error>(
+    fn: () => unknown,
+    expectedErrorType?: new (...args: never[]) => E,
+    expectedMessage?: ExpectedMessage,
+    message: string = "",
+    options: ThrowsOptions<E> = {}
+  ): E {
     const PREFIX = message ? `${message}: ` : ""
     try {
       fn()
     } catch (e: unknown) {
-      if (!(e instanceof Error)) {
-        throw new AssertionError(`${PREFIX}Thrown value is not an Error instance: (${Assert.safeStringify(e)})`)
-      }
-
-      if (expectedErrorType && !(e instanceof expectedErrorType)) {
-        throw new AssertionError(`${PREFIX}Expected error type ${expectedErrorType.name}, but got ${e.constructor.name}.`)
-      }
+      Assert.checkError(e, "Thrown", expectedErrorType, expectedMessage, message, options as ThrowsOptions<unknown>)
+      return e as E // ✅ Test passed
+    }
 
-      if (expectedMessage && e.message !== expectedMessage) {
-        throw new AssertionError(`${PREFIX}Expected message "${expectedMessage}", but got "${e.message}".`)
-      }
+    throw new AssertionError(`${PREFIX}Expected function to throw, but it did not.`,
+      { expected: expectedErrorType ? expectedErrorType.name : expectedMessage, operator: "throws", userMessage: message })
+  }
+  // #endregion throws
 
-      return // ✅ Test passed
+  // #region rejects
+  /**
+   * Asserts that the provided Promise (or the Promise returned by the provided function) rejects.
+   * Optionally checks the error type, the message and the whole error, the same way as `Assert.throws`.
+   * Since the check is asynchronous, the returned Promise needs to be awaited.
+   * @param promiseOrFn - A Promise, or a function returning a Promise, e.g. `() => fetchData()`.
+   *                      A function throwing synchronously is also considered as rejecting.
+   * @param expectedErrorType - (Optional) Expected constructor of the rejection value (e.g., `TypeError`).
+   * @param expectedMessage - (Optional) Exact expected error message, a regular expression to match,
+   *                          or a predicate over the message.
+   * @param message - (Optional) Additional prefix for the error message if the assertion fails.
+   * @param options - (Optional) A predicate over the whole error, and whether to accept rejection values which are
+   *                  not `Error` instances, see `ThrowsOptions`.
+   * @returns {Promise<E>} - Resolves with the rejection value if the assertion passes, rejects with `AssertionError` otherwise.
+   * @throws AssertionError - If the Promise resolves, or if the rejection value does not match the expected type,
+   *                          message or predicate.
+   * @example
+   * ```ts
+   * await Assert.rejects(async () => {
+   *   throw new TypeError("Invalid")
+   * }, TypeError, "Invalid", "Should reject with TypeError")
+   * const error = await Assert.rejects(() => fetchData("bad-url"), Error, /not found/)
+   * ```
+   * @see {@link Assert.doesNotReject} for the opposite assertion.
+   * @see {@link Assert.throws} for synchronous code.
+   */
+  public static async rejects<E = Error>(
+    promiseOrFn: Promise<unknown> | (() => Promise<unknown>),
+    expectedErrorType?: new (...args: never[]) => E,
+    expectedMessage?: ExpectedMessage,
+    message: string = "",
+    options: ThrowsOptions<E> = {}
+  ): Promise<E> {
+    const PREFIX = message ? `${message}: ` : ""
+    try {
+      await (typeof promiseOrFn === "function" ? promiseOrFn() : promiseOrFn)
+    } catch (e: unknown) {
+      Assert.checkError(e, "Rejected", expectedErrorType, expectedMessage, message, options as ThrowsOptions<unknown>)
+      return e as E // ✅ Test passed
     }
 
-    throw new AssertionError(`${PREFIX}Expected function to throw, but it did not.`)
+    throw new AssertionError(`${PREFIX}Expected promise to reject, but it resolved.`,
+      { expected: expectedErrorType ? expectedErrorType.name : expectedMessage, operator: "rejects", userMessage: message })
   }
-  // #endregion throws
+  // #endregion rejects
+
+  // #region doesNotReject
+  /**
+   * Asserts that the provided Promise (or the Promise returned by the provided function) does NOT reject.
+   * Since the check is asynchronous, the returned Promise needs to be awaited.
+   * @param promiseOrFn - A Promise, or a function returning a Promise, e.g. `() => fetchData()`.
+   * @param message - (Optional) Prefix for the error message if the assertion fails.
+   * @returns {Promise<void>} - Resolves if the assertion passes, rejects with `AssertionError` otherwise.
+   * @throws AssertionError - If the Promise rejects (or the function throws).
+   * @example
+   * ```ts
+   * await Assert.doesNotReject(async () => {
+   *   const x = await Promise.resolve(1)
+   * }, "Should not reject")
+   * ```
+   * @see {@link Assert.rejects} for the opposite assertion.
+   * @see {@link Assert.doesNotThrow} for synchronous code.
+   */
+  public static async doesNotReject(
+    promiseOrFn: Promise<unknown> | (() => Promise<unknown>),
+    message: string = ""
+  ): Promise<void> {
+    const PREFIX = message ? `${message}: ` : ""
+    try {
+      await (typeof promiseOrFn === "function" ? promiseOrFn() : promiseOrFn)
+    } catch (e) {
+      throw new AssertionError(`${PREFIX}Expected promise not to reject, but it rejected with: ${Assert.safeStringify(e)}`,
+        { actual: e, operator: "doesNotReject", userMessage: message })
+    }
+  }
+  // #endregion doesNotReject
 
   // #region doesNotThrow
   /**
@@ -126,7 +397,8 @@ class Assert {
     try {
       fn()
     } catch (e) {
-      throw new AssertionError(`${PREFIX}Expected function not to throw, but it threw: ${Assert.safeStringify(e)}`)
+      throw new AssertionError(`${PREFIX}Expected function not to throw, but it threw: ${Assert.safeStringify(e)}`,
+        { actual: e, operator: "doesNotThrow", userMessage: message })
     }
   }
   // #endregion doesNotThrow
@@ -134,12 +406,22 @@ class Assert {
   // #region equals
  /**
  * Asserts that two values are equal by type and value.
- * Supports comparison of primitive types, one-dimensional arrays of primitives,
- * and one-dimensional arrays of objects (deep equality via `JSON.stringify`).
+ * Supports comparison of primitive types, arrays and objects, with a recursive deep equality:
+ * - Object keys are compared regardless of their order, a property set to `undefined` is not equal to a missing one.
+ * - `Date` (by time), `RegExp` (by source and flags), `Map` and `Set` (by entries, regardless of their order,
+ *   `Map` keys are compared by identity).
+ * - `NaN` is equal to `NaN`, `-0` is not equal to `0`, an array hole is not equal to `undefined`, arrays of
+ *   different lengths are not equal.
+ * - Objects must have the same prototype, e.g. a class instance is not equal to a plain object. `Number`, `String`
+ *   and `Boolean` objects are compared by value, errors also by name and message.
+ * - Circular references are supported.
+ * - Asymmetric matchers (see `Assert.any`) can be nested in the expected value.
  * If the values differ, a detailed error is thrown.
  * For arrays, mismatches include index, value, and type.
- * For arrays of objects, a shallow comparison using `JSON.stringify` is performed.
- * If a value cannot be stringified (e.g., due to circular references), it is treated as `[unprintable value]` in error messages and object equality checks.
+ * If a value cannot be stringified (e.g., due to circular references), it is shown as `[unprintable value]` in error messages.
+ * For objects and nested arrays, the message lists the differences by path, e.g. `[3][2]: actual (5) !== expected (6)`
+ * or `.customer.name: missing, expected ("Ann")`. For multi-line strings, it lists the differing lines, and for
+ * long strings, it shows the index of the first differing character.
  * @param actual - The actual value.
  * @param expected - The expected value.
  * @param message - (Optional) Prefix message included in the thrown error on failure.
@@ -158,55 +440,55 @@ class Assert {
   public static equals<T>(actual: T, expected: T, message: string = ""): asserts actual is T {
     const PREFIX = message ? `${message}: ` : "";
 
-    if ((actual == null || expected == null) && actual !== expected) {
-      throw new AssertionError(`${PREFIX}Assertion failed: actual (${Assert.safeStringify(actual)}) !== expected (${Assert.safeStringify(expected)})`);
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "equals", userMessage: message }
+
+    if (Assert.deepEqual(actual, expected)) {
+      return
+    }
+
+    if (expected instanceof AsymmetricMatcher) {
+      throw new AssertionError(`${PREFIX}Assertion failed: actual (${Assert.preview(actual)}) does not match ${String(expected)}`, DETAILS)
+    }
+
+    if (actual == null || expected == null) {
+      throw new AssertionError(`${PREFIX}Assertion failed: actual (${Assert.safeStringify(actual)}) !== expected (${Assert.safeStringify(expected)})`, DETAILS);
     }
 
     if (Array.isArray(actual) && Array.isArray(expected)) {
       this.arraysEqual(actual, expected, message);
-      return;
     }
 
-    // Add this block for plain objects
-    if (
-      typeof actual === "object" &&
-      typeof expected === "object" &&
-      actual !== null &&
-      expected !== null
-    ) {
-      let actualStr:string, expectedStr:string
-      try {
-        actualStr = JSON.stringify(actual)
-      } catch {
-        actualStr = "[unprintable value]"
-      }
-      try {
-        expectedStr = JSON.stringify(expected)
-      } catch {
-        expectedStr = "[unprintable value]"
-      }
-      if (actualStr !== expectedStr) {
-        throw new AssertionError(
-          `${PREFIX}Assertion failed: actual (${Assert.safeStringify(actual)}) !== expected (${Assert.safeStringify(expected)})`
-        )
-      }
-      return
+    // Add this block for objects
+    if (typeof actual === "object" && typeof expected === "object") {
+      throw new AssertionError(Assert.withDifferences(
+        `${PREFIX}Assertion failed: actual (${Assert.preview(actual)}) !== expected (${Assert.preview(expected)})`,
+        actual, expected
+      ), DETAILS)
     }
 
-    if (actual !== expected) {
-      const actualType = typeof actual;
-      const expectedType = typeof expected;
+    const actualType = typeof actual;
+    const expectedType = typeof expected;
+    if (Assert.isMultiline(actual, expected)) {
       throw new AssertionError(
-        `${PREFIX}Assertion failed: actual (${Assert.safeStringify(actual)} : ${actualType}) !== expected (${Assert.safeStringify(expected)} : ${expectedType})`
+        `${PREFIX}Assertion failed: actual (${Assert.preview(actual)} : ${actualType}) !== expected (${Assert.preview(expected)} : ${expectedType})\n` +
+        `Differences (- expected, + actual):\n${Assert.diffLines(String(actual), String(expected)).map(line => `  ${line}`).join("\n")}`,
+        DETAILS
       );
     }
+    const isLongString = typeof actual === "string" && typeof expected === "string"
+      && Math.max(actual.length, expected.length) > Assert.MAX_PREVIEW_LENGTH
+    throw new AssertionError(
+      `${PREFIX}Assertion failed: actual (${Assert.safeStringify(actual)} : ${actualType}) !== expected (${Assert.safeStringify(expected)} : ${expectedType})` +
+      (isLongString ? `\n${Assert.describeFirstDifference(String(actual), String(expected))}` : ""),
+      DETAILS
+    );
   }
   // #endregion equals
 
   // #region notEquals
   /**
    * Asserts that two values are not equal (deep comparison).
-   * For arrays and objects, uses deep comparison (via `JSON.stringify`).
+   * Uses the same deep equality as `Assert.equals`.
    * Throws `AssertionError` if the values are equal.
    * @param actual - The actual value.
    * @param notExpected - The value that should NOT match.
@@ -225,658 +507,4947 @@ class Assert {
    */
   public static notEquals<T>(actual: T, notExpected: T, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    try {
-      Assert.equals(actual, notExpected, message)
-    } catch {
+    if (!Assert.deepEqual(actual, notExpected)) {
       return // Passed: values are not equal
     }
-    throw new AssertionError(`${PREFIX}Values should not be equal: (${Assert.safeStringify(actual)})`)
+    throw new AssertionError(`${PREFIX}Values should not be equal: (${Assert.safeStringify(actual)})`,
+      { actual, expected: notExpected, operator: "notEquals", userMessage: message })
   }
   // #endregion notEquals
 
-  // #region isNull
+  // #region closeTo
   /**
-   * Asserts that the given value is strictly `null`.
-   * Provides a robust stringification of the value for error messages,
-   * guarding against unsafe or error-throwing `toString()` implementations.
-   * @param value - The value to test.
-   * @param message - Optional message to prefix in case of failure.
-   * @returns {asserts value is null} - Narrows the type of 'value' to `null` if the assertion passes.
-   * @throws AssertionError if the value is not exactly `null`.
+   * Asserts that two numbers are approximately equal, within an absolute and/or relative tolerance, as for
+   * floating point and Excel calculations differing in the last bits (e.g. `0.1 + 0.2` vs `0.3`).
+   * Arrays, such as the 2D arrays of `range.getValues()`, are compared element-wise: they must have the same
+   * dimensions, numbers must be close and other values (e.g. strings) must be equal.
+   * `NaN` is close to `NaN`, and infinite values only to themselves.
+   * @param actual - The actual number or array.
+   * @param expected - The expected number or array.
+   * @param tolerance - (Optional) Maximum absolute difference, or the absolute and relative tolerances
+   *                    (default: `{ absolute: 1e-9, relative: 1e-9 }`), see `Tolerance`.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the values are not close, with the difference (delta) and the tolerance,
+   *                          or if the tolerance is invalid.
    * @example
    * ```ts
-   * Assert.isNull(null, "Value should be null")
-   * Assert.isNull(undefined, "Value should not be undefined") // Fails
-   * Assert.isNull(0, "Zero is not null") // Fails
-   * Assert.isNull(null)
-   * Assert.isNull(undefined) // Fails
-   * Assert.isNull(0) // Fails
+   * Assert.closeTo(0.1 + 0.2, 0.3, undefined, "Floating point sum")
+   * Assert.closeTo(10.004, 10, 0.005, "Rounded to cents")
+   * Assert.closeTo(1010, 1000, { relative: 0.01 }, "Within 1%")
+   * Assert.closeTo(range.getValues(), [["Total", 0.3]], 1e-6) // Element-wise
+   * Assert.closeTo(1.1, 1, 0.05) // Fails: Expected (1.1) to be close to (1), delta (0.10000000000000009) > tolerance (0.05)
    * ```
-   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `null` or `undefined`).
+   * @see {@link Assert.approxEquals} for an alias.
+   * @see {@link Assert.equals} for strict equality.
    */
-  public static isNull(value: unknown, message: string = ""): asserts value is null {
+  public static closeTo(
+    actual: number | unknown[],
+    expected: number | unknown[],
+    tolerance: number | Tolerance = Assert.DEFAULT_TOLERANCE,
+    message: string = ""
+  ): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (value !== null) {
-      throw new AssertionError(
-        `${PREFIX}Expected value to be null, but got (${Assert.safeStringify(value)})`
-      )
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "closeTo", userMessage: message }
+    const { absolute = 0, relative = 0 } = typeof tolerance === "number" ? { absolute: tolerance } : tolerance
+    if (!(absolute >= 0) || !(relative >= 0)) {
+      throw Assert.invalidOperand(`${PREFIX}Tolerance must be non-negative numbers: (${Assert.safeStringify(tolerance)})`, DETAILS)
+    }
+
+    if (Array.isArray(actual) && Array.isArray(expected)) {
+      if (actual.length !== expected.length) {
+        throw new AssertionError(`${PREFIX}Array length mismatch: actual (${actual.length}) !== expected (${expected.length})`, DETAILS)
+      }
+      const differences: string[] = []
+      Assert.collectFarValues(actual, expected, "", absolute, relative, differences)
+      if (differences.length > 0) {
+        const lines = differences.slice(0, Assert.MAX_DIFFERENCES).map(difference => `  ${difference}`)
+        if (differences.length > Assert.MAX_DIFFERENCES) {
+          lines.push(`  ... and ${differences.length - Assert.MAX_DIFFERENCES} more`)
+        }
+        throw new AssertionError(
+          `${PREFIX}Arrays are not close: ${differences.length} value(s) differ\nDifferences:\n${lines.join("\n")}`, DETAILS)
+      }
+      return
+    }
+
+    if (typeof actual !== "number" || typeof expected !== "number") {
+      throw Assert.invalidOperand(
+        `${PREFIX}Expected two numbers or two arrays, but got (${Assert.preview(actual)} : ${Assert.typeName(actual)}) and ` +
+        `(${Assert.preview(expected)} : ${Assert.typeName(expected)})`, DETAILS)
+    }
+    const far = Assert.farDescription(actual, expected, absolute, relative)
+    if (far) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.safeStringify(actual)}) to be close to (${Assert.safeStringify(expected)}), ${far}`, DETAILS)
     }
   }
-  // #endregion isNull
+  // #endregion closeTo
 
-  // #region isNotNull
+  // #region approxEquals
+  /** Alias for `Assert.closeTo` method.
+   * @param actual - The actual number or array.
+   * @param expected - The expected number or array.
+   * @param tolerance - (Optional) Maximum absolute difference, or the absolute and relative tolerances.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the values are not close.
+   * @see {@link Assert.closeTo} for details.
+   */
+  public static approxEquals(
+    actual: number | unknown[],
+    expected: number | unknown[],
+    tolerance: number | Tolerance = Assert.DEFAULT_TOLERANCE,
+    message: string = ""
+  ): void {
+    Assert.closeTo(actual, expected, tolerance, message)
+  }
+  // #endregion approxEquals
+
+  // #region matches
   /**
-   * Asserts that the given value is not `null`.
-   * Provides a robust stringification of the value for error messages,
-   * guarding against unsafe or error-throwing `toString()` implementations.
-   * Narrows the type of value to `NonNullable<T>` if assertion passes.
-   * @param value - The value to test.
-   * @param message - Optional message to prefix in case of failure.
-   * @returns {asserts value is NonNullable<T>} - Narrows the type of value to `NonNullable<T>` if the assertion passes.
-   * @throws AssertionError if the value is `null`.
+   * Asserts that a string matches a regular expression. The `g` and `y` flags are ignored, so the result
+   * doesn't depend on the `lastIndex` of the regular expression.
+   * @param actual - The actual string.
+   * @param pattern - The regular expression to match.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not a string or doesn't match.
    * @example
    * ```ts
-   * Assert.isNotNull(42, "Value should not be null")
-   * Assert.isNotNull(null, "Value should be null") // Fails
+   * Assert.matches(range.getAddress(), /^Sheet1!A1:C\d+$/, "Address of the table")
+   * Assert.matches("abc", /^\d+$/) // Fails: Expected ("abc") to match (/^\d+$/)
    * ```
-   * @see {@link Assert.isNull} for the opposite assertion.
-   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `null` or `undefined`).
+   * @see {@link Assert.doesNotMatch} for the opposite assertion.
    */
-  public static isNotNull<T>(value: T, message: string = ""): asserts value is NonNullable<T> {
+  public static matches(actual: string, pattern: RegExp, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (value === null) {
-      throw new AssertionError(
-        `${PREFIX}Expected value not to be null, but got (${Assert.safeStringify(value)})`
-      )
+    const DETAILS: AssertionErrorDetails = { actual, expected: pattern, operator: "matches", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    if (Assert.firstMatch(actual, pattern) === null) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.safeStringify(actual)}) to match (${Assert.safeStringify(pattern)})`, DETAILS)
     }
   }
-  // #endregion isNotNull
+  // #endregion matches
 
-  // #region fail
+  // #region doesNotMatch
   /**
-   * Fails the test by throwing an error with the provided message.
-   * This method is used to explicitly indicate that a test case has failed,
-   * regardless of any conditions or assertions.
-   * @param message - (Optional) The failure message to display.
-   *                  If not provided, a default `Assertion failed` message is used.
-   * @returns {never} - This method never returns, it always throws an error.
-   * @throws AssertionError - Always throws an `AssertionError` with the provided message.
+   * Asserts that a string does not match a regular expression, see `Assert.matches`.
+   * @param actual - The actual string.
+   * @param pattern - The regular expression that must not match.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not a string or matches, with the matched text and its index.
    * @example
    * ```ts
-   * Assert.fail("This test should not pass")
+   * Assert.doesNotMatch(formula, /#REF!/, "No broken references")
    * ```
    */
-  static fail(message?: string) {
-    throw new AssertionError(message || "Assertion failed")
-  }
-  // #endregion fail
-
-  // #region isType
-  /**
-  * Asserts that a value is of the specified primitive type.
-  * @param value - The value to check.
-  * @param type - The expected type as a string (`string`, `number`, etc.)
-  * @param message - Optional error message.
-  * @returns {void} - This method does not return a value.
-  * @throws AssertionError - If the type does not match.
-  * @example
-  * ```ts
-  * isType("hello", "string"); // passes
-  * isType(42, "number"); // passes
-  * isType({}, "string"); // throws
-  * isType([], "object", "Expected an object"); // passes
-  * isType(null, "object", "Expected an object"); // throws
-  * ```
-  * @remarks This method checks the type using `typeof` and throws an `AssertionError` if the type does not match.
-  *          It is useful for validating input types in functions or methods.
-  *         The `type` parameter must be one of the following strings: `string`, `number`, `boolean`, `object`, `function`, `undefined`, `symbol`, or `bigint`.
-  *          If the value is `null`, it will be considered an object, which is consistent with JavaScript's behavior.
-  * @see {@link Assert.isNotType} for the opposite assertion.
-  */
-  public static isType(
-    value: unknown,
-    type: "string" | "number" | "boolean" | "object" | "function" | "undefined" | "symbol" | "bigint",
-    message: string = ""
-  ): void {
+  public static doesNotMatch(actual: string, pattern: RegExp, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (typeof value !== type) {
+    const DETAILS: AssertionErrorDetails = { actual, expected: pattern, operator: "doesNotMatch", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    const match = Assert.firstMatch(actual, pattern)
+    if (match !== null) {
       throw new AssertionError(
-        `${PREFIX}Expected type '${type}', but got '${typeof value}': (${JSON.stringify(value)})`
-      );
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) not to match (${Assert.safeStringify(pattern)}), ` +
+        `but matched (${Assert.safeStringify(match[0])}) at index ${match.index}`,
+        DETAILS
+      )
     }
   }
-  // #endregion isType
-
-  // #region isNotType
-/**
- * Asserts that a value is NOT of the specified primitive type.
- * @param value - The value to check.
- * @param type - The unwanted type as a string (`string`, `number`, etc.)
- * @param message - Optional error message.
- * @returns {void} - This method does not return a value.
- * @throws AssertionError - If the type matches.
- * @example
- * ```ts
- * isNotType("hello", "number"); // passes
- * isNotType(42, "string"); // passes
- * isNotType({}, "object"); // throws
- * isNotType(null, "object", "Should not be object"); // throws (null is object in JS)
- * ```
- * @remarks This method checks the type using `typeof` and throws an `AssertionError` if the type matches.
- *          The `type` parameter must be one of the following strings: `string`, `number`, `boolean`, `object`, `function`, `undefined`, `symbol`, or `bigint`.
- * @see {@link Assert.isType} for the positive assertion.
- */
-public static isNotType(
-  value: unknown,
-  type: "string" | "number" | "boolean" | "object" | "function" | "undefined" | "symbol" | "bigint",
-  message: string = ""
-): void {
-  const PREFIX = message ? `${message}: ` : ""
-  if (typeof value === type) {
-    throw new AssertionError(
-      `${PREFIX}Did not expect type '${type}', but got '${typeof value}': (${JSON.stringify(value)})`
-    )
-  }
-}
-// #endregion isNotType
+  // #endregion doesNotMatch
 
-  // #region isTrue
+  // #region startsWith
   /**
-   * Asserts that the provided value is truthy.
-   * Throws `AssertionError` if the value is not truthy.
-   * @param value - The value to test for truthiness.
+   * Asserts that a string starts with a prefix.
+   * @param actual - The actual string.
+   * @param prefix - The expected prefix.
+   * @param options - (Optional) Whether to ignore case and whitespace, see `TextOptions`.
    * @param message - (Optional) Message to prefix in case of failure.
-   * @returns {asserts value} - Narrows the type of value to its original type if the assertion passes.
-   * @throws AssertionError - If the value is not truthy.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not a string or doesn't start with `prefix`, with the index of the
+   *                          first differing character.
    * @example
    * ```ts
-   * Assert.isTrue(1 < 2, "Math sanity")
-   * Assert.isTrue("non-empty string", "String should be truthy")
+   * Assert.startsWith(address, "Sheet1!", {}, "Address on the first sheet")
+   * Assert.startsWith("=sum(A1:A3)", "=SUM(", { ignoreCase: true })
    * ```
-   * @see {@link Assert.isFalse} for the opposite assertion.
    */
-  public static isTrue(value: unknown, message: string = ""): asserts value {
+  public static startsWith(actual: string, prefix: string, options: TextOptions = {}, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (!value) {
-      throw new AssertionError(`${PREFIX}Expected value to be truthy, but got (${Assert.safeStringify(value)})`)
+    const DETAILS: AssertionErrorDetails = { actual, expected: prefix, operator: "startsWith", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    const [text, start] = [Assert.normalizeText(actual, options), Assert.normalizeText(prefix, options)]
+    if (text.slice(0, start.length) !== start) {
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) to start with (${Assert.safeStringify(prefix)})` +
+        `${Assert.describeTextOptions(options)}, first difference at index ${Assert.firstDifference(text, start)}`,
+        DETAILS
+      )
     }
   }
-  // #endregion isTrue
+  // #endregion startsWith
 
-  // #region isFalse
+  // #region endsWith
   /**
-   * Asserts that the provided value is falsy.
-   * Throws `AssertionError` if the value is not falsy.
-   * @param value - The value to test for falsiness.
+   * Asserts that a string ends with a suffix.
+   * @param actual - The actual string.
+   * @param suffix - The expected suffix.
+   * @param options - (Optional) Whether to ignore case and whitespace, see `TextOptions`.
    * @param message - (Optional) Message to prefix in case of failure.
    * @returns {void} - This method does not return a value.
-   * @throws AssertionError - If the value is not falsy.
+   * @throws AssertionError - If `actual` is not a string or doesn't end with `suffix`.
    * @example
    * ```ts
-   * Assert.isFalse(1 > 2, "Math sanity")
-   * Assert.isFalse(null, "Null should be falsy")
-   * Assert.isFalse(undefined, "Undefined should be falsy")
-   * Assert.isFalse(false, "Boolean false should be falsy")
-   * Assert.isFalse(0, "Zero should be falsy")
-   * Assert.isFalse("", "Empty string should be falsy")
+   * Assert.endsWith(fileName, ".xlsx")
+   * Assert.endsWith("Total: 10 EUR", "eur", { ignoreCase: true })
    * ```
-   * @see {@link Assert.isTrue} for the opposite assertion.
    */
-  public static isFalse(value: unknown, message: string = ""): void {
+  public static endsWith(actual: string, suffix: string, options: TextOptions = {}, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (value) {
-      throw new AssertionError(`${PREFIX}Expected value to be falsy, but got (${Assert.safeStringify(value)})`)
+    const DETAILS: AssertionErrorDetails = { actual, expected: suffix, operator: "endsWith", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    const [text, end] = [Assert.normalizeText(actual, options), Assert.normalizeText(suffix, options)]
+    if (end.length > text.length || text.slice(text.length - end.length) !== end) {
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) to end with (${Assert.safeStringify(suffix)})${Assert.describeTextOptions(options)}`,
+        DETAILS
+      )
     }
   }
-  // #endregion isFalse
+  // #endregion endsWith
 
-  // #region isUndefined
+  // #region containsText
   /**
-   * Asserts that the given value is strictly `undefined`.
-   * Throws `AssertionError` if the value is not exactly `undefined`.
-   * @param value - The value to check.
+   * Asserts that a string contains a substring, optionally ignoring case and whitespace.
+   * @param actual - The actual string.
+   * @param substring - The expected substring.
+   * @param options - (Optional) Whether to ignore case and whitespace, see `TextOptions`.
    * @param message - (Optional) Message to prefix in case of failure.
-   * @returns {asserts value is undefined} - Narrows the type of value to `undefined` if the assertion passes.
-   * @throws AssertionError - If the value is not `undefined`.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not a string or doesn't contain `substring`.
    * @example
    * ```ts
-   * Assert.isUndefined(void 0)
-   * Assert.isUndefined(undefined)
-   * Assert.isUndefined(null, "Null is not undefined") // Fails 
+   * Assert.containsText("Total Amount", "amount", { ignoreCase: true })
    * ```
-   * @see {@link Assert.isNotUndefined} for the opposite assertion.
-   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `undefined`).
+   * @see {@link Assert.contains} for an exact substring or array element.
    */
-  public static isUndefined(value: unknown, message: string = ""): asserts value is undefined {
+  public static containsText(actual: string, substring: string, options: TextOptions = {}, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (value !== undefined) {
-      throw new AssertionError(`${PREFIX}Expected value to be undefined, but got (${Assert.safeStringify(value)})`)
+    const DETAILS: AssertionErrorDetails = { actual, expected: substring, operator: "containsText", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    if (Assert.normalizeText(actual, options).indexOf(Assert.normalizeText(substring, options)) === -1) {
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) to contain (${Assert.safeStringify(substring)})${Assert.describeTextOptions(options)}`,
+        DETAILS
+      )
     }
   }
-  // #endregion isUndefined
+  // #endregion containsText
 
-  // #region isNotUndefined
+  // #region stringEquals
   /**
-   * Asserts that the given value is not `undefined`.
-   * Narrows the type to exclude `undefined`.
-   * Throws `AssertionError` if the value is `undefined`.
-   * @param value - The value to check.
+   * Asserts that two strings are equal, optionally ignoring case and whitespace, as for generated labels,
+   * formulas and addresses. The failure message shows the index of the first differing character (of the
+   * compared strings, i.e. without whitespace if it is ignored) and the text around it.
+   * @param actual - The actual string.
+   * @param expected - The expected string.
+   * @param options - (Optional) Whether to ignore case and whitespace, see `TextOptions`.
    * @param message - (Optional) Message to prefix in case of failure.
    * @returns {void} - This method does not return a value.
-   * @throws AssertionError - If the value is `undefined`.
+   * @throws AssertionError - If `actual` is not a string or the strings differ.
    * @example
    * ```ts
-   * Assert.isNotUndefined(42, "Value should not be undefined")
-   * Assert.isNotUndefined(null, "Null is allowed, but not undefined")
-   * Assert.isNotUndefined(42)
-   * Assert.isNotUndefined(null)
+   * Assert.stringEquals(cell.getFormula(), "=SUM(A1:A3)", { ignoreCase: true, ignoreWhitespace: true })
+   * Assert.stringEquals("Sheet1!A1:C10", "Sheet1!A1:C11")
+   * // Fails: Expected strings to be equal: actual ("Sheet1!A1:C10") !== expected ("Sheet1!A1:C11")
+   * //        First difference at index 12: actual ("...eet1!A1:C10") !== expected ("...eet1!A1:C11")
    * ```
-   * @see {@link Assert.isUndefined} for the opposite assertion.
-   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `undefined`).
+   * @see {@link Assert.equals} for strict equality of any values.
    */
-  public static isNotUndefined<T>(value: T, message: string = ""): asserts value is Exclude<T, undefined> {
+  public static stringEquals(actual: string, expected: string, options: TextOptions = {}, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (value === undefined) {
-      throw new AssertionError(`${PREFIX}Expected value not to be undefined, but got undefined`)
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "stringEquals", userMessage: message }
+    Assert.checkString(actual, PREFIX, DETAILS)
+    const [a, e] = [Assert.normalizeText(actual, options), Assert.normalizeText(expected, options)]
+    if (a !== e) {
+      throw new AssertionError(
+        `${PREFIX}Expected strings to be equal${Assert.describeTextOptions(options)}: ` +
+        `actual (${Assert.safeStringify(actual)}) !== expected (${Assert.safeStringify(expected)})\n` +
+        Assert.describeFirstDifference(a, e),
+        DETAILS
+      )
     }
   }
-  // #endregion isNotUndefined
+  // #endregion stringEquals
 
-  // #region isDefined
+  // #region matchesObject
   /**
-   * Asserts that the given value is defined (not `undefined`).
-   * Alias for `isNotUndefined` method.
-   * @param value - The value to check.
+   * Asserts that an object matches a subset of properties: the actual object may have other properties.
+   * The expected properties are compared recursively the same way (nested objects are also partially matched),
+   * arrays must have the same length and their elements must match. Asymmetric matchers (see `Assert.any`)
+   * can be used in the expected properties.
+   * @param actual - The actual object.
+   * @param expected - The expected properties.
    * @param message - (Optional) Message to prefix in case of failure.
    * @returns {void} - This method does not return a value.
-   * @throws AssertionError - If the value is `undefined`.
+   * @throws AssertionError - If a property is missing or differs, listing the differences by path.
    * @example
    * ```ts
-   * Assert.isDefined(42, "Value should be defined")
-   * Assert.isDefined(null, "Null is allowed, but not undefined")
-   * Assert.isDefined(42)
-   * Assert.isDefined(null)
+   * const record = { id: 7, name: "Ann", address: { city: "Paris", zip: "75001" } }
+   * Assert.matchesObject(record, { name: "Ann", address: { city: "Paris" } }, "Customer record")
+   * Assert.matchesObject(record, { id: Assert.any(Number) })
    * ```
-   * @see {@link Assert.isNotUndefined} for the opposite assertion.
-   * @see {@link Assert.isUndefined} for an alias that checks for undefined values.
+   * @see {@link Assert.objectContaining} for the asymmetric matcher.
    */
-  public static isDefined<T>(value: T, message: string = ""): asserts value is Exclude<T, undefined> {
-    Assert.isNotUndefined(value, message)
+  public static matchesObject(actual: unknown, expected: object, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "matchesObject", userMessage: message }
+    if (typeof actual !== "object" || actual === null) {
+      throw Assert.invalidOperand(`${PREFIX}Expected an object, but got (${Assert.preview(actual)} : ${Assert.typeName(actual)})`, DETAILS)
+    }
+    if (!Assert.matchesPartially(actual, expected)) {
+      throw new AssertionError(Assert.withDifferences(
+        `${PREFIX}Expected (${Assert.preview(actual)}) to match object (${Assert.preview(expected)})`, actual, expected, true
+      ), DETAILS)
+    }
   }
-  // #endregion isDefined
+  // #endregion matchesObject
 
-  // #region contains
+  // #region hasProperty
   /**
-   * Asserts that an array or string contains a specified value or substring.
-   * For arrays, uses `indexOf` for shallow equality.
-   * For strings, uses `indexOf` for substring check.
-   * Throws `AssertionError` if the value is not found.
-   * @param container - The array or string to search.
-   * @param value - The value (or substring) to search for.
+   * Asserts that an object has a property, given by a path of property names and array indexes separated by dots
+   * (e.g. `customer.address.city` or `items.0.name`, also `items[0].name`), and optionally checks its value
+   * with the deep equality of `Assert.equals`. The value is only checked if it is not `undefined`.
+   * @param actual - The actual object.
+   * @param path - The path of the property.
+   * @param value - (Optional) The expected value of the property, an asymmetric matcher can be used.
    * @param message - (Optional) Message to prefix in case of failure.
-   * @return {void} - This method does not return a value.
-   * @throws AssertionError - If the value is not found.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the property doesn't exist or has a different value.
    * @example
    * ```ts
-   * Assert.contains([1, 2, 3], 2, "Array should contain 2")
-   * Assert.contains("hello world", "world", "String should contain 'world'")
-   * Assert.contains([1, 2, 3], 4) // Fails
-   * Assert.contains("hello world", "test") // Fails
-   * Assert.contains([1,2,3], 2)
-   * Assert.contains("hello world", "world")
+   * Assert.hasProperty(order, "customer.address.city", "Paris")
+   * Assert.hasProperty(order, "items[0].price")
+   * Assert.hasProperty(order, "items.0.quantity", Assert.any(Number), "Quantity is a number")
    * ```
    */
-  public static contains(container: unknown[] | string, value: unknown, message: string = ""): void {
+  public static hasProperty(actual: unknown, path: string, value?: unknown, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (typeof container === "string") {
-      if (typeof value !== "string" || container.indexOf(value) === -1) {
-        throw new AssertionError(`${PREFIX}String does not contain expected substring (${Assert.safeStringify(value)})`)
+    const DETAILS: AssertionErrorDetails = { actual, operator: "hasProperty", userMessage: message }
+    const keys = String(path).replace(/\[(\w+)\]/g, ".$1").split(".").filter(key => key !== "")
+    let current: unknown = actual
+    for (let i = 0; i < keys.length; i++) {
+      const parent = keys.slice(0, i).join(".")
+      if (current === null || (typeof current !== "object" && typeof current !== "function")) {
+        throw new AssertionError(
+          `${PREFIX}Property "${path}" not found: ${parent ? `"${parent}"` : "the value"} is (${Assert.preview(current)})`, DETAILS)
       }
-      return
-    }
-    if (Array.isArray(container)) {
-      if (container.indexOf(value) === -1) {
-        throw new AssertionError(`${PREFIX}Array does not contain expected value (${Assert.safeStringify(value)})`)
+      if (!(keys[i] in (current as object))) {
+        throw new AssertionError(
+          `${PREFIX}Property "${path}" not found: ${parent ? `"${parent}"` : "the object"} has no property "${keys[i]}"`, DETAILS)
       }
-      return
+      current = (current as Record<string, unknown>)[keys[i]]
+    }
+    if (value !== undefined && !Assert.deepEqual(current, value)) {
+      throw new AssertionError(Assert.withDifferences(
+        `${PREFIX}Expected property "${path}" to be (${Assert.preview(value)}), but got (${Assert.preview(current)})`, current, value
+      ), { actual: current, expected: value, operator: "hasProperty", userMessage: message })
     }
-    throw new AssertionError(`${PREFIX}Contains only works for arrays or strings`)
   }
-  // #endregion contains
+  // #endregion hasProperty
 
-  // #region isInstanceOf
+  // #region matchers
   /**
-   * Asserts that the value is an instance of the specified constructor.
-   * Throws `AssertionError` if not.
-   * @param value - The value to check.
-   * @param ctor - The class/constructor function.
-   * @param message - Optional error message prefix.
-   * @return {void} - This method does not return a value.
-   * @throws AssertionError - If the value is not an instance of the constructor.
+   * Asymmetric matcher of any value created by the given constructor, or of the corresponding primitive type for
+   * `Number`, `String`, `Boolean`, `BigInt` and `Symbol` (e.g. `Assert.any(Number)` matches `42`, but not `NaN`).
+   * It is typed as the matched values, so it can be nested in the expected value of `Assert.equals`.
+   * @param ctor - The constructor.
+   * @returns The matcher.
    * @example
    * ```ts
-   * class MyClass {}
-   * const instance = new MyClass()
-   * Assert.isInstanceOf(instance, MyClass, "Should be an instance of MyClass")
-   * Assert.isInstanceOf(instance, Object) // Passes, since all classes inherit from Object
-   * Assert.isInstanceOf(42, MyClass) // Fails
+   * Assert.equals({ id: 7, created: new Date() }, { id: Assert.any(Number), created: Assert.any(Date) })
    * ```
-   * @see {@link Assert.isNotInstanceOf} for the opposite assertion.
    */
-  public static isInstanceOf(
-    value: unknown,
-    ctor: Function,
-    message: string = ""
-  ): void {
+  public static any(ctor: NumberConstructor): number
+  public static any(ctor: StringConstructor): string
+  public static any(ctor: BooleanConstructor): boolean
+  public static any<T>(ctor: new (...args: never[]) => T): T
+  public static any(ctor: Function): unknown {
+    const primitives: Function[] = [Number, String, Boolean, BigInt, Symbol]
+    const type = ["number", "string", "boolean", "bigint", "symbol"][primitives.indexOf(ctor)]
+    return new AsymmetricMatcher(`Any<${ctor.name}>`, value =>
+      type ? typeof value === type && !(type === "number" && Number.isNaN(value)) : value instanceof ctor)
+  }
+
+  /**
+   * Asymmetric matcher of any value except `null` and `undefined`.
+   * @returns The matcher.
+   * @example
+   * ```ts
+   * Assert.equals(result, { id: Assert.anything(), status: "done" })
+   * ```
+   */
+  public static anything(): unknown {
+    return new AsymmetricMatcher("Anything", value => value != null)
+  }
+
+  /**
+   * Asymmetric matcher of any string matching a regular expression (the `g` and `y` flags are ignored).
+   * @param pattern - The regular expression.
+   * @returns The matcher, typed as a string.
+   * @example
+   * ```ts
+   * Assert.equals(row, ["INV-0042", Assert.stringMatching(/^\d{4}-\d{2}-\d{2}$/)])
+   * ```
+   */
+  public static stringMatching(pattern: RegExp): string {
+    return new AsymmetricMatcher(`StringMatching<${String(pattern)}>`, value =>
+      typeof value === "string" && Assert.firstMatch(value, pattern) !== null) as unknown as string
+  }
+
+  /**
+   * Asymmetric matcher of any object matching a subset of properties, see `Assert.matchesObject`.
+   * @param expected - The expected properties.
+   * @returns The matcher, typed as the expected properties.
+   * @example
+   * ```ts
+   * Assert.equals(orders, [Assert.objectContaining({ id: 1 }), Assert.objectContaining({ id: 2 })])
+   * ```
+   */
+  public static objectContaining<T extends object>(expected: T): T {
+    return new AsymmetricMatcher(`ObjectContaining<${Assert.safeStringify(expected)}>`, value =>
+      typeof value === "object" && value !== null && Assert.matchesPartially(value, expected)) as unknown as T
+  }
+  // #endregion matchers
+
+  // #region greaterThan
+  /**
+   * Asserts that a value is greater than another one. Numbers, strings (in code unit order) and Dates can be
+   * compared, both operands must be of the same kind.
+   * @param actual - The actual value.
+   * @param bound - The value that `actual` must be greater than.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not greater than `bound`, or the values cannot be compared
+   *                          (different kinds, `NaN` or invalid Dates).
+   * @example
+   * ```ts
+   * Assert.greaterThan(total, 0, "Total should be positive")
+   * Assert.greaterThan(new Date(2025, 0, 2), new Date(2025, 0, 1))
+   * Assert.greaterThan(3, 5) // Fails: Expected (3) to be greater than (5)
+   * ```
+   * @see {@link Assert.greaterThanOrEqual}, {@link Assert.lessThan} and {@link Assert.inRange}.
+   */
+  public static greaterThan(actual: Comparable, bound: Comparable, message: string = ""): void {
+    Assert.checkOrder(actual, bound, "greaterThan", message)
+  }
+  // #endregion greaterThan
+
+  // #region greaterThanOrEqual
+  /**
+   * Asserts that a value is greater than or equal to another one, see `Assert.greaterThan`.
+   * @param actual - The actual value.
+   * @param bound - The value that `actual` must be greater than or equal to.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is less than `bound`, or the values cannot be compared.
+   * @example
+   * ```ts
+   * Assert.greaterThanOrEqual(rowCount, 1, "At least one row")
+   * Assert.greaterThanOrEqual("b", "a")
+   * ```
+   */
+  public static greaterThanOrEqual(actual: Comparable, bound: Comparable, message: string = ""): void {
+    Assert.checkOrder(actual, bound, "greaterThanOrEqual", message)
+  }
+  // #endregion greaterThanOrEqual
+
+  // #region lessThan
+  /**
+   * Asserts that a value is less than another one, see `Assert.greaterThan`.
+   * @param actual - The actual value.
+   * @param bound - The value that `actual` must be less than.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not less than `bound`, or the values cannot be compared.
+   * @example
+   * ```ts
+   * Assert.lessThan(elapsed, 1000, "Should take less than a second")
+   * Assert.lessThan(5, 3) // Fails: Expected (5) to be less than (3)
+   * ```
+   */
+  public static lessThan(actual: Comparable, bound: Comparable, message: string = ""): void {
+    Assert.checkOrder(actual, bound, "lessThan", message)
+  }
+  // #endregion lessThan
+
+  // #region lessThanOrEqual
+  /**
+   * Asserts that a value is less than or equal to another one, see `Assert.greaterThan`.
+   * @param actual - The actual value.
+   * @param bound - The value that `actual` must be less than or equal to.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is greater than `bound`, or the values cannot be compared.
+   * @example
+   * ```ts
+   * Assert.lessThanOrEqual(discount, 0.5, "Discount is at most 50%")
+   * ```
+   */
+  public static lessThanOrEqual(actual: Comparable, bound: Comparable, message: string = ""): void {
+    Assert.checkOrder(actual, bound, "lessThanOrEqual", message)
+  }
+  // #endregion lessThanOrEqual
+
+  // #region inRange
+  /**
+   * Asserts that a value is within a range, bounds included, see `Assert.greaterThan`.
+   * @param actual - The actual value.
+   * @param min - The lower bound.
+   * @param max - The upper bound.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is out of the range, or the values cannot be compared.
+   * @example
+   * ```ts
+   * Assert.inRange(score, 0, 100, "Score is a percentage")
+   * Assert.inRange(new Date(), startDate, endDate)
+   * Assert.inRange(12, 1, 10) // Fails: Expected (12) to be in range [1, 10]
+   * ```
+   */
+  public static inRange(actual: Comparable, min: Comparable, max: Comparable, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (typeof ctor !== "function") {
-      throw new AssertionError(`${PREFIX}Provided constructor is not a function or class.`)
-    }
-    if (value == null || (typeof value !== "object" && typeof value !== "function")) {
-      throw new AssertionError(
-        `${PREFIX}Expected instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`
-      )
-    }
-    if (!(value instanceof ctor)) {
+    const DETAILS: AssertionErrorDetails = { actual, expected: [min, max], operator: "inRange", userMessage: message }
+    if (Assert.compare(actual, min, PREFIX, DETAILS) < 0 || Assert.compare(actual, max, PREFIX, DETAILS) > 0) {
       throw new AssertionError(
-        `${PREFIX}Expected value to be instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) to be in range [${Assert.safeStringify(min)}, ${Assert.safeStringify(max)}]`,
+        DETAILS
       )
     }
   }
-  // #endregion isInstanceOf
+  // #endregion inRange
 
-  // #region isNotInstanceOf
+  // #region hasDimensions
   /**
-   * Asserts that the value is NOT an instance of the specified constructor.
-   * Throws `AssertionError` if it is.
-   * @param value - The value to check.
-   * @param ctor - The class/constructor function.
-   * @param message - Optional error message prefix.
-   * @return {void} - This method does not return a value.
-   * @throws AssertionError - If the value is an instance of the constructor.
+   * Asserts that a 2D array, such as the values of a range, has the given number of rows and columns.
+   * Every row must have the same number of columns.
+   * @param values - The 2D array, e.g. `range.getValues()`.
+   * @param rows - The expected number of rows.
+   * @param columns - The expected number of columns.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the dimensions differ or a row has a different number of columns.
    * @example
    * ```ts
-   * class MyClass {}
-   * const instance = new MyClass()
-   * Assert.isNotInstanceOf(instance, String, "Should not be an instance of String")
-   * Assert.isNotInstanceOf(instance, MyClass) // Fails
-   * Assert.isNotInstanceOf(42, MyClass) // Passes, since 42 is not an instance of MyClass
+   * Assert.hasDimensions(sheet.getRange("A1:C2").getValues(), 2, 3, "Header and one row")
+   * Assert.hasDimensions([[1, 2], [3]], 2, 2) // Fails: Expected dimensions (2 x 2), but row 2 has 1 column(s)
    * ```
-   * @see {@link Assert.isInstanceOf} for the opposite assertion.
    */
-  public static isNotInstanceOf(
-    value: unknown,
-    ctor: Function,
-    message: string = ""
-  ): void {
+  public static hasDimensions(values: unknown[][], rows: number, columns: number, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-    if (typeof ctor !== "function") {
-      throw new AssertionError(`${PREFIX}Provided constructor is not a function or class.`)
+    const DETAILS: AssertionErrorDetails = {
+      actual: Assert.dimensionsOf(values), expected: [rows, columns], operator: "hasDimensions", userMessage: message
     }
-    if (value != null && (typeof value === "object" || typeof value === "function") && value instanceof ctor) {
-      throw new AssertionError(
-        `${PREFIX}Expected value NOT to be instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`
-      )
+    if (!Array.isArray(values)) {
+      throw Assert.invalidOperand(`${PREFIX}Expected a 2D array, but got (${Assert.preview(values)})`, DETAILS)
+    }
+    const problem = Assert.dimensionsProblem(values, rows, columns)
+    if (problem) {
+      throw new AssertionError(`${PREFIX}Expected dimensions (${rows} x ${columns}), but ${problem}`, DETAILS)
     }
   }
-  // #endregion isNotInstanceOf
+  // #endregion hasDimensions
 
-  // #region arraysEqual
+  // #region rangeEquals
   /**
-   * Asserts that two one-dimensional arrays are equal by type and value.
-   * Supports arrays of primitives and arrays of objects (shallow comparison via JSON.stringify).
-   * Designed for internal use only.
-   * @param a - Actual array.
-   * @param b - Expected array.
-   * @param message - (Optional) Prefix message for errors.
-   * @returns {boolean} - Returns true if arrays are equal, otherwise throws an error.
-   * @throws AssertionError - If arrays differ in length, type, or value at any index.
-   * @private
+   * Asserts that two 2D arrays of cell values, such as the values of a range, are equal cell by cell.
+   * The dimensions are checked first. The failure message lists the mismatching cells by address
+   * (e.g. `B3: expected 10, got 12`) and renders a text grid of the mismatching region.
+   * Empty strings, `null` and `undefined` are all empty cells, unless `options.strictEmpty` is set.
+   * @param actual - The actual values, e.g. `range.getValues()`.
+   * @param expected - The expected values.
+   * @param options - (Optional) The address of the actual values (`origin`), a tolerance for numbers and
+   *                  how to compare empty cells, see `RangeOptions`.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the dimensions or any cell value differ.
+   * @example
+   * ```ts
+   * const range = sheet.getRange("B2:C3")
+   * Assert.rangeEquals(range.getValues(), [["Item", "Total"], ["Apples", 10]], { origin: range.getAddress() })
+   * // Fails if C3 is 12:
+   * // Range values mismatch in 1 cell(s):
+   * //   C3: expected 10, got 12
+   * // Mismatching region C3 (actual !== expected):
+   * //      C
+   * //   3  12 !== 10
+   * ```
+   * @see {@link Assert.subRangeEquals} to compare a block of the values.
    */
-  private static arraysEqual<T>(a: T[], b: T[], message: string = ""): boolean {
+  public static rangeEquals(actual: CellValue[][], expected: CellValue[][], options: RangeOptions = {}, message: string = ""): void {
     const PREFIX = message ? `${message}: ` : ""
-
-    if (a.length !== b.length) {
-      throw new AssertionError(`${PREFIX}Array length mismatch: actual (${a.length}) !== expected (${b.length})`)
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "rangeEquals", userMessage: message }
+    if (!Array.isArray(actual) || !Array.isArray(expected)) {
+      throw Assert.invalidOperand(`${PREFIX}Expected two 2D arrays, but got (${Assert.preview(actual)}) and (${Assert.preview(expected)})`, DETAILS)
     }
-
-    for (let i = 0; i < a.length; i++) {
-      const actualValue = a[i]
-      const expectedValue = b[i]
-      const actualType = typeof actualValue
-      const expectedType = typeof expectedValue
-
-      if (actualType !== expectedType) {
-        throw new AssertionError(`${PREFIX}Array type mismatch at index ${i}: actual (${Assert.safeStringify(actualValue)} : ${actualType}) !== expected (${Assert.safeStringify(expectedValue)} : ${expectedType})`)
-      }
-
-      if (actualType === "object" && expectedType === "object" && actualValue !== null && expectedValue !== null) {
-        if (JSON.stringify(actualValue) !== JSON.stringify(expectedValue)) {
-          throw new AssertionError(`${PREFIX}Array object value mismatch at index ${i}: actual (${Assert.safeStringify(actualValue)}) !== expected (${Assert.safeStringify(expectedValue)})`)
-        }
-        continue
-      }
-
-      if (actualValue !== expectedValue) {
-        throw new AssertionError(`${PREFIX}Array value mismatch at index ${i}: actual (${Assert.safeStringify(actualValue)}) !== expected (${Assert.safeStringify(expectedValue)})`)
-      }
+    const [rows, columns] = Assert.dimensionsOf(expected)
+    const problem = Assert.dimensionsProblem(expected, rows, columns)
+    if (problem) {
+      throw Assert.invalidOperand(`${PREFIX}Expected values are not a rectangular 2D array: ${problem}`, DETAILS)
     }
-    return true // for consistency; return value is not used
+    const actualProblem = Assert.dimensionsProblem(actual, rows, columns)
+    if (actualProblem) {
+      throw new AssertionError(`${PREFIX}Range dimensions mismatch: expected (${rows} x ${columns}), but ${actualProblem}`, DETAILS)
+    }
+    Assert.compareCells(actual, expected, 0, 0, options, PREFIX, DETAILS)
+  }
+  // #endregion rangeEquals
+
+  // #region subRangeEquals
+  /**
+   * Asserts that a block of a 2D array of cell values, starting at a given cell, is equal to the expected values,
+   * cell by cell, as `Assert.rangeEquals`. The other cells are ignored.
+   * @param actual - The actual values, e.g. `sheet.getUsedRange().getValues()`.
+   * @param expected - The expected values of the block.
+   * @param topLeft - Address of the top-left cell of the block (e.g. `B2`), relative to `options.origin`.
+   * @param options - (Optional) The address of the actual values (`origin`), a tolerance for numbers and
+   *                  how to compare empty cells, see `RangeOptions`.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the block is out of the actual values or any of its cells differ.
+   * @example
+   * ```ts
+   * const values = sheet.getRange("A1:D10").getValues()
+   * Assert.subRangeEquals(values, [[10, 20], [30, 40]], "C2", {}, "Totals block")
+   * ```
+   * @see {@link Assert.rangeEquals} to compare all the values.
+   */
+  public static subRangeEquals(
+    actual: CellValue[][],
+    expected: CellValue[][],
+    topLeft: string,
+    options: RangeOptions = {},
+    message: string = ""
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "subRangeEquals", userMessage: message }
+    if (!Array.isArray(actual) || !Array.isArray(expected)) {
+      throw Assert.invalidOperand(`${PREFIX}Expected two 2D arrays, but got (${Assert.preview(actual)}) and (${Assert.preview(expected)})`, DETAILS)
+    }
+    const [rows, columns] = Assert.dimensionsOf(expected)
+    const problem = Assert.dimensionsProblem(expected, rows, columns)
+    if (problem) {
+      throw Assert.invalidOperand(`${PREFIX}Expected values are not a rectangular 2D array: ${problem}`, DETAILS)
+    }
+    const [originRow, originColumn] = Assert.parseCell(options.origin || "A1", PREFIX, DETAILS)
+    const [row, column] = Assert.parseCell(topLeft, PREFIX, DETAILS)
+    const rowOffset = row - originRow
+    const columnOffset = column - originColumn
+    const block = `${Assert.cellAddress(row, column)}:${Assert.cellAddress(row + rows - 1, column + columns - 1)}`
+    const isInside = rowOffset >= 0 && columnOffset >= 0 && rowOffset + rows <= actual.length
+      && actual.slice(rowOffset, rowOffset + rows).every(values => Array.isArray(values) && columnOffset + columns <= values.length)
+    if (!isInside) {
+      const [actualRows, actualColumns] = Assert.dimensionsOf(actual)
+      const range = actualRows && actualColumns
+        ? `${Assert.cellAddress(originRow, originColumn)}:${Assert.cellAddress(originRow + actualRows - 1, originColumn + actualColumns - 1)}`
+        : "(empty)"
+      throw new AssertionError(`${PREFIX}Sub-range ${block} is out of the actual range ${range}`, DETAILS)
+    }
+    Assert.compareCells(actual, expected, rowOffset, columnOffset, options, PREFIX, DETAILS)
+  }
+  // #endregion subRangeEquals
+
+  // #region isNull
+  /**
+   * Asserts that the given value is strictly `null`.
+   * Provides a robust stringification of the value for error messages,
+   * guarding against unsafe or error-throwing `toString()` implementations.
+   * @param value - The value to test.
+   * @param message - Optional message to prefix in case of failure.
+   * @returns {asserts value is null} - Narrows the type of 'value' to `null` if the assertion passes.
+   * @throws AssertionError if the value is not exactly `null`.
+   * @example
+   * ```ts
+   * Assert.isNull(null, "Value should be null")
+   * Assert.isNull(undefined, "Value should not be undefined") // Fails
+   * Assert.isNull(0, "Zero is not null") // Fails
+   * Assert.isNull(null)
+   * Assert.isNull(undefined) // Fails
+   * Assert.isNull(0) // Fails
+   * ```
+   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `null` or `undefined`).
+   */
+  public static isNull(value: unknown, message: string = ""): asserts value is null {
+    const PREFIX = message ? `${message}: ` : ""
+    if (value !== null) {
+      throw new AssertionError(
+        `${PREFIX}Expected value to be null, but got (${Assert.safeStringify(value)})`,
+        { actual: value, expected: null, operator: "isNull", userMessage: message }
+      )
+    }
+  }
+  // #endregion isNull
+
+  // #region isNotNull
+  /**
+   * Asserts that the given value is not `null`.
+   * Provides a robust stringification of the value for error messages,
+   * guarding against unsafe or error-throwing `toString()` implementations.
+   * Narrows the type of value to `NonNullable<T>` if assertion passes.
+   * @param value - The value to test.
+   * @param message - Optional message to prefix in case of failure.
+   * @returns {asserts value is NonNullable<T>} - Narrows the type of value to `NonNullable<T>` if the assertion passes.
+   * @throws AssertionError if the value is `null`.
+   * @example
+   * ```ts
+   * Assert.isNotNull(42, "Value should not be null")
+   * Assert.isNotNull(null, "Value should be null") // Fails
+   * ```
+   * @see {@link Assert.isNull} for the opposite assertion.
+   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `null` or `undefined`).
+   */
+  public static isNotNull<T>(value: T, message: string = ""): asserts value is NonNullable<T> {
+    const PREFIX = message ? `${message}: ` : ""
+    if (value === null) {
+      throw new AssertionError(
+        `${PREFIX}Expected value not to be null, but got (${Assert.safeStringify(value)})`,
+        { actual: value, operator: "isNotNull", userMessage: message }
+      )
+    }
+  }
+  // #endregion isNotNull
+
+  // #region fail
+  /**
+   * Fails the test by throwing an error with the provided message.
+   * This method is used to explicitly indicate that a test case has failed,
+   * regardless of any conditions or assertions.
+   * @param message - (Optional) The failure message to display.
+   *                  If not provided, a default `Assertion failed` message is used.
+   * @returns {never} - This method never returns, it always throws an error.
+   * @throws AssertionError - Always throws an `AssertionError` with the provided message.
+   * @example
+   * ```ts
+   * Assert.fail("This test should not pass")
+   * ```
+   */
+  static fail(message?: string) {
+    throw new AssertionError(message || "Assertion failed", { operator: "fail", userMessage: message })
+  }
+  // #endregion fail
+
+  // #region isType
+  /**
+  * Asserts that a value is of the specified primitive type.
+  * @param value - The value to check.
+  * @param type - The expected type as a string (`string`, `number`, etc.)
+  * @param message - Optional error message.
+  * @returns {void} - This method does not return a value.
+  * @throws AssertionError - If the type does not match.
+  * @example
+  * ```ts
+  * isType("hello", "string"); // passes
+  * isType(42, "number"); // passes
+  * isType({}, "string"); // throws
+  * isType([], "object", "Expected an object"); // passes
+  * isType(null, "object", "Expected an object"); // throws
+  * ```
+  * @remarks This method checks the type using `typeof` and throws an `AssertionError` if the type does not match.
+  *          It is useful for validating input types in functions or methods.
+  *         The `type` parameter must be one of the following strings: `string`, `number`, `boolean`, `object`, `function`, `undefined`, `symbol`, or `bigint`.
+  *          If the value is `null`, it will be considered an object, which is consistent with JavaScript's behavior.
+  * @see {@link Assert.isNotType} for the opposite assertion.
+  */
+  public static isType(
+    value: unknown,
+    type: "string" | "number" | "boolean" | "object" | "function" | "undefined" | "symbol" | "bigint",
+    message: string = ""
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    if (typeof value !== type) {
+      throw new AssertionError(
+        `${PREFIX}Expected type '${type}', but got '${typeof value}': (${JSON.stringify(value)})`,
+        { actual: typeof value, expected: type, operator: "isType", userMessage: message }
+      );
+    }
+  }
+  // #endregion isType
+
+  // #region isNotType
+/**
+ * Asserts that a value is NOT of the specified primitive type.
+ * @param value - The value to check.
+ * @param type - The unwanted type as a string (`string`, `number`, etc.)
+ * @param message - Optional error message.
+ * @returns {void} - This method does not return a value.
+ * @throws AssertionError - If the type matches.
+ * @example
+ * ```ts
+ * isNotType("hello", "number"); // passes
+ * isNotType(42, "string"); // passes
+ * isNotType({}, "object"); // throws
+ * isNotType(null, "object", "Should not be object"); // throws (null is object in JS)
+ * ```
+ * @remarks This method checks the type using `typeof` and throws an `AssertionError` if the type matches.
+ *          The `type` parameter must be one of the following strings: `string`, `number`, `boolean`, `object`, `function`, `undefined`, `symbol`, or `bigint`.
+ * @see {@link Assert.isType} for the positive assertion.
+ */
+public static isNotType(
+  value: unknown,
+  type: "string" | "number" | "boolean" | "object" | "function" | "undefined" | "symbol" | "bigint",
+  message: string = ""
+): void {
+  const PREFIX = message ? `${message}: ` : ""
+  if (typeof value === type) {
+    throw new AssertionError(
+      `${PREFIX}Did not expect type '${type}', but got '${typeof value}': (${JSON.stringify(value)})`,
+      { actual: typeof value, expected: type, operator: "isNotType", userMessage: message }
+    )
+  }
+}
+// #endregion isNotType
+
+  // #region isTrue
+  /**
+   * Asserts that the provided value is truthy.
+   * Throws `AssertionError` if the value is not truthy.
+   * @param value - The value to test for truthiness.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {asserts value} - Narrows the type of value to its original type if the assertion passes.
+   * @throws AssertionError - If the value is not truthy.
+   * @example
+   * ```ts
+   * Assert.isTrue(1 < 2, "Math sanity")
+   * Assert.isTrue("non-empty string", "String should be truthy")
+   * ```
+   * @see {@link Assert.isFalse} for the opposite assertion.
+   */
+  public static isTrue(value: unknown, message: string = ""): asserts value {
+    const PREFIX = message ? `${message}: ` : ""
+    if (!value) {
+      throw new AssertionError(`${PREFIX}Expected value to be truthy, but got (${Assert.safeStringify(value)})`,
+        { actual: value, expected: true, operator: "isTrue", userMessage: message })
+    }
+  }
+  // #endregion isTrue
+
+  // #region isFalse
+  /**
+   * Asserts that the provided value is falsy.
+   * Throws `AssertionError` if the value is not falsy.
+   * @param value - The value to test for falsiness.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is not falsy.
+   * @example
+   * ```ts
+   * Assert.isFalse(1 > 2, "Math sanity")
+   * Assert.isFalse(null, "Null should be falsy")
+   * Assert.isFalse(undefined, "Undefined should be falsy")
+   * Assert.isFalse(false, "Boolean false should be falsy")
+   * Assert.isFalse(0, "Zero should be falsy")
+   * Assert.isFalse("", "Empty string should be falsy")
+   * ```
+   * @see {@link Assert.isTrue} for the opposite assertion.
+   */
+  public static isFalse(value: unknown, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    if (value) {
+      throw new AssertionError(`${PREFIX}Expected value to be falsy, but got (${Assert.safeStringify(value)})`,
+        { actual: value, expected: false, operator: "isFalse", userMessage: message })
+    }
+  }
+  // #endregion isFalse
+
+  // #region isUndefined
+  /**
+   * Asserts that the given value is strictly `undefined`.
+   * Throws `AssertionError` if the value is not exactly `undefined`.
+   * @param value - The value to check.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {asserts value is undefined} - Narrows the type of value to `undefined` if the assertion passes.
+   * @throws AssertionError - If the value is not `undefined`.
+   * @example
+   * ```ts
+   * Assert.isUndefined(void 0)
+   * Assert.isUndefined(undefined)
+   * Assert.isUndefined(null, "Null is not undefined") // Fails 
+   * ```
+   * @see {@link Assert.isNotUndefined} for the opposite assertion.
+   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `undefined`).
+   */
+  public static isUndefined(value: unknown, message: string = ""): asserts value is undefined {
+    const PREFIX = message ? `${message}: ` : ""
+    if (value !== undefined) {
+      throw new AssertionError(`${PREFIX}Expected value to be undefined, but got (${Assert.safeStringify(value)})`,
+        { actual: value, expected: undefined, operator: "isUndefined", userMessage: message })
+    }
+  }
+  // #endregion isUndefined
+
+  // #region isNotUndefined
+  /**
+   * Asserts that the given value is not `undefined`.
+   * Narrows the type to exclude `undefined`.
+   * Throws `AssertionError` if the value is `undefined`.
+   * @param value - The value to check.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is `undefined`.
+   * @example
+   * ```ts
+   * Assert.isNotUndefined(42, "Value should not be undefined")
+   * Assert.isNotUndefined(null, "Null is allowed, but not undefined")
+   * Assert.isNotUndefined(42)
+   * Assert.isNotUndefined(null)
+   * ```
+   * @see {@link Assert.isUndefined} for the opposite assertion.
+   * @see {@link Assert.isDefined} for an alias that checks for defined values (not `undefined`).
+   */
+  public static isNotUndefined<T>(value: T, message: string = ""): asserts value is Exclude<T, undefined> {
+    const PREFIX = message ? `${message}: ` : ""
+    if (value === undefined) {
+      throw new AssertionError(`${PREFIX}Expected value not to be undefined, but got undefined`,
+        { actual: value, operator: "isNotUndefined", userMessage: message })
+    }
+  }
+  // #endregion isNotUndefined
+
+  // #region isDefined
+  /**
+   * Asserts that the given value is defined (not `undefined`).
+   * Alias for `isNotUndefined` method.
+   * @param value - The value to check.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is `undefined`.
+   * @example
+   * ```ts
+   * Assert.isDefined(42, "Value should be defined")
+   * Assert.isDefined(null, "Null is allowed, but not undefined")
+   * Assert.isDefined(42)
+   * Assert.isDefined(null)
+   * ```
+   * @see {@link Assert.isNotUndefined} for the opposite assertion.
+   * @see {@link Assert.isUndefined} for an alias that checks for undefined values.
+   */
+  public static isDefined<T>(value: T, message: string = ""): asserts value is Exclude<T, undefined> {
+    Assert.isNotUndefined(value, message)
+  }
+  // #endregion isDefined
+
+  // #region contains
+  /**
+   * Asserts that an array or string contains a specified value or substring.
+   * For arrays, uses `indexOf` for shallow equality.
+   * For strings, uses `indexOf` for substring check.
+   * Throws `AssertionError` if the value is not found.
+   * @param container - The array or string to search.
+   * @param value - The value (or substring) to search for.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @return {void} - This method does not return a value.
+   * @throws AssertionError - If the value is not found.
+   * @example
+   * ```ts
+   * Assert.contains([1, 2, 3], 2, "Array should contain 2")
+   * Assert.contains("hello world", "world", "String should contain 'world'")
+   * Assert.contains([1, 2, 3], 4) // Fails
+   * Assert.contains("hello world", "test") // Fails
+   * Assert.contains([1,2,3], 2)
+   * Assert.contains("hello world", "world")
+   * ```
+   * @see {@link Assert.includesDeep} to find objects or arrays, and to search Maps and Sets.
+   */
+  public static contains(container: unknown[] | string, value: unknown, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual: container, expected: value, operator: "contains", userMessage: message }
+    if (typeof container === "string") {
+      if (typeof value !== "string" || container.indexOf(value) === -1) {
+        throw new AssertionError(`${PREFIX}String does not contain expected substring (${Assert.safeStringify(value)})`, DETAILS)
+      }
+      return
+    }
+    if (Array.isArray(container)) {
+      if (container.indexOf(value) === -1) {
+        throw new AssertionError(`${PREFIX}Array does not contain expected value (${Assert.safeStringify(value)})`, DETAILS)
+      }
+      return
+    }
+    throw Assert.invalidOperand(`${PREFIX}Contains only works for arrays or strings`, DETAILS)
+  }
+  // #endregion contains
+
+  // #region includesDeep
+  /**
+   * Asserts that a collection contains a value, using the deep equality of `Assert.equals` instead of the
+   * reference equality of `Assert.contains`, so objects and arrays can be found. Strings are searched for a
+   * substring, Maps for a value. Asymmetric matchers (see `Assert.any`) can be used as the value.
+   * @param container - The array, string, Map or Set to search.
+   * @param value - The value (or substring) to search for.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is not found.
+   * @example
+   * ```ts
+   * Assert.includesDeep([{ id: 1 }, { id: 2 }], { id: 2 })
+   * Assert.includesDeep(new Set([[1, 2], [3, 4]]), [3, 4], "Set of pairs")
+   * ```
+   * @see {@link Assert.doesNotContain} for the opposite assertion.
+   */
+  public static includesDeep<T>(container: Collection<T>, value: T, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual: container, expected: value, operator: "includesDeep", userMessage: message }
+    if (Assert.indexOfMember(container, value, PREFIX, DETAILS) === -1) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.preview(container)}) to include (${Assert.preview(value)})`, DETAILS)
+    }
+  }
+  // #endregion includesDeep
+
+  // #region doesNotContain
+  /**
+   * Asserts that a collection doesn't contain a value, using deep equality, see `Assert.includesDeep`.
+   * @param container - The array, string, Map or Set to search.
+   * @param value - The value (or substring) which should not be found.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is found, with its index for arrays and strings.
+   * @example
+   * ```ts
+   * Assert.doesNotContain(["A1", "B2"], "C3")
+   * Assert.doesNotContain([{ id: 1 }, { id: 2 }], { id: 2 }) // Fails: ... but found it at index 1
+   * ```
+   * @see {@link Assert.includesDeep} for the opposite assertion.
+   */
+  public static doesNotContain<T>(container: Collection<T>, value: T, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual: container, expected: value, operator: "doesNotContain", userMessage: message }
+    const index = Assert.indexOfMember(container, value, PREFIX, DETAILS)
+    if (index !== -1) {
+      const where = typeof container === "string" || Array.isArray(container) ? ` at index ${index}` : ""
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.preview(container)}) not to contain (${Assert.preview(value)}), but found it${where}`, DETAILS)
+    }
+  }
+  // #endregion doesNotContain
+
+  // #region sameMembers
+  /**
+   * Asserts that two collections have the same members in any order, using deep equality. Each member is
+   * matched once, so duplicates must appear the same number of times. For Maps, the entries (key and value)
+   * are compared. The collections can be of different kinds, e.g. an array and a Set.
+   * @param actual - The actual array, string, Map or Set.
+   * @param expected - The expected members.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the members differ, listing the missing and unexpected members.
+   * @example
+   * ```ts
+   * Assert.sameMembers(sheetNames, ["Data", "Summary", "Config"])
+   * Assert.sameMembers([{ id: 2 }, { id: 1 }], [{ id: 1 }, { id: 2 }])
+   * Assert.sameMembers([1, 1, 2], [1, 2, 2]) // Fails: Missing: (2), Unexpected: (1)
+   * ```
+   */
+  public static sameMembers<T>(actual: Collection<T>, expected: Collection<T>, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, expected, operator: "sameMembers", userMessage: message }
+    const missing = Assert.membersOf(expected, PREFIX, DETAILS, true).slice()
+    const unexpected: unknown[] = []
+    Assert.membersOf(actual, PREFIX, DETAILS, true).forEach(member => {
+      const index = missing.findIndex(candidate => Assert.deepEqual(member, candidate))
+      if (index === -1) {
+        unexpected.push(member)
+      } else {
+        missing.splice(index, 1)
+      }
+    })
+    if (missing.length > 0 || unexpected.length > 0) {
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.preview(actual)}) to have the same members as (${Assert.preview(expected)})` +
+        (missing.length > 0 ? `\nMissing: ${Assert.listMembers(missing)}` : "") +
+        (unexpected.length > 0 ? `\nUnexpected: ${Assert.listMembers(unexpected)}` : ""),
+        DETAILS
+      )
+    }
+  }
+  // #endregion sameMembers
+
+  // #region hasLength
+  /**
+   * Asserts that an array or string has a given length, or a Map or Set a given size.
+   * @param actual - The actual array, string, Map or Set.
+   * @param length - The expected length or size.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the length differs, or `actual` is not a collection.
+   * @example
+   * ```ts
+   * Assert.hasLength(range.getValues(), 10, "Ten rows")
+   * Assert.hasLength(new Set(ids), ids.length, "No duplicated ids")
+   * ```
+   */
+  public static hasLength(actual: Collection, length: number, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, expected: length, operator: "hasLength", userMessage: message }
+    const [size, property] = Assert.sizeOf(actual, PREFIX, DETAILS)
+    if (size !== length) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.preview(actual)}) to have ${property} (${length}), but got (${size})`, DETAILS)
+    }
+  }
+  // #endregion hasLength
+
+  // #region isEmpty
+  /**
+   * Asserts that an array, string, Map or Set is empty.
+   * @param actual - The actual array, string, Map or Set.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is not empty, or not a collection.
+   * @example
+   * ```ts
+   * Assert.isEmpty(errors, "No validation errors")
+   * ```
+   * @see {@link Assert.isNotEmpty} for the opposite assertion.
+   */
+  public static isEmpty(actual: Collection, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, operator: "isEmpty", userMessage: message }
+    const [size, property] = Assert.sizeOf(actual, PREFIX, DETAILS)
+    if (size !== 0) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.preview(actual)}) to be empty, but got ${property} (${size})`, DETAILS)
+    }
+  }
+  // #endregion isEmpty
+
+  // #region isNotEmpty
+  /**
+   * Asserts that an array, string, Map or Set is not empty.
+   * @param actual - The actual array, string, Map or Set.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If `actual` is empty, or not a collection.
+   * @example
+   * ```ts
+   * Assert.isNotEmpty(table.getRows(), "The table has rows")
+   * ```
+   * @see {@link Assert.isEmpty} for the opposite assertion.
+   */
+  public static isNotEmpty(actual: Collection, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, operator: "isNotEmpty", userMessage: message }
+    if (Assert.sizeOf(actual, PREFIX, DETAILS)[0] === 0) {
+      throw new AssertionError(`${PREFIX}Expected (${Assert.preview(actual)}) not to be empty`, DETAILS)
+    }
+  }
+  // #endregion isNotEmpty
+
+  // #region isSorted
+  /**
+   * Asserts that the members of a collection are sorted in ascending order (equal neighbours are allowed).
+   * Without comparator, the members must be numbers, strings or Dates, compared as in `Assert.lessThan`.
+   * The comparator returns a positive number if its first argument must come after the second one,
+   * as for `Array.prototype.sort`.
+   * @param actual - The actual array, string, Map (its values) or Set.
+   * @param comparator - (Optional) Function comparing two members.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If two neighbouring members are out of order, or cannot be compared.
+   * @example
+   * ```ts
+   * Assert.isSorted([1, 2, 2, 5])
+   * Assert.isSorted(rows, (a, b) => b.total - a.total, "Descending totals")
+   * Assert.isSorted([1, 3, 2]) // Fails: ... but (3) at index 1 is out of order with (2) at index 2
+   * ```
+   */
+  public static isSorted<T>(actual: Collection<T>, comparator?: (a: T, b: T) => number, message: string = ""): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, operator: "isSorted", userMessage: message }
+    const members = Assert.membersOf(actual, PREFIX, DETAILS) as T[]
+    for (let i = 1; i < members.length; i++) {
+      const [a, b] = [members[i - 1], members[i]]
+      const order = comparator ? comparator(a, b)
+        : Assert.compare(a as unknown as Comparable, b as unknown as Comparable, PREFIX, DETAILS)
+      if (order > 0) {
+        throw new AssertionError(
+          `${PREFIX}Expected (${Assert.preview(actual)}) to be sorted, but (${Assert.preview(a)}) at index ${i - 1} ` +
+          `is out of order with (${Assert.preview(b)}) at index ${i}`,
+          DETAILS
+        )
+      }
+    }
+  }
+  // #endregion isSorted
+
+  // #region extend
+  /**
+   * Registers a custom assertion, to check domain rules with the same failure messages and `AssertionError` details
+   * as the built-in assertions. The assertion returns whether the value passes and a description of what is
+   * expected; `Assert.satisfies` and `expect(value).toSatisfy` build the message `Expected (actual) <description>`
+   * with the user message prefix, and `Assert.doesNotSatisfy` and `.not.toSatisfy` the negated message
+   * `Expected (actual) not <description>`. Registering an assertion with the same name replaces it.
+   * @param name - Name of the assertion, also the `operator` of the errors (`not <name>` if negated).
+   * @param assertion - Function checking the actual value with the arguments given to `Assert.satisfies`.
+   * @returns {void} - This method does not return a value.
+   * @throws Error - If the name is empty or the assertion is not a function.
+   * @example
+   * ```ts
+   * Assert.extend("isCostCentre", (code: string) => ({
+   *   pass: /^CC-\d{4}$/.test(code),
+   *   description: "to be a valid cost centre code (CC-nnnn)"
+   * }))
+   * Assert.extend("hasColumns", (row: unknown[], columns: number) => ({
+   *   pass: row.length === columns,
+   *   description: `to have ${columns} columns`,
+   *   expected: columns,
+   *   reason: `got ${row.length}`
+   * }))
+   * Assert.satisfies("CC-123", "isCostCentre", [], "Row 3")
+   * // Fails: Row 3: Expected ("CC-123") to be a valid cost centre code (CC-nnnn)
+   * expect(row).toSatisfy("hasColumns", 50)
+   * ```
+   * @see {@link Assert.safeStringify} to show values in the description.
+   */
+  public static extend<T, A extends unknown[]>(name: string, assertion: (actual: T, ...args: A) => CustomAssertionResult): void {
+    if (typeof name !== "string" || name === "") {
+      throw new Error(`Invalid custom assertion name (${Assert.safeStringify(name)}), expected a non-empty string`)
+    }
+    if (typeof assertion !== "function") {
+      throw new Error(`Custom assertion "${name}" must be a function, but got (${Assert.safeStringify(assertion)})`)
+    }
+    Assert.customAssertions.set(name, assertion as unknown as CustomAssertion)
+  }
+  // #endregion extend
+
+  // #region satisfies
+  /**
+   * Asserts that a value satisfies a custom assertion registered with `Assert.extend`.
+   * @param actual - The actual value.
+   * @param name - Name of the custom assertion.
+   * @param args - (Optional) Arguments of the custom assertion, after the actual value.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value doesn't satisfy the assertion, or no assertion is registered with the name.
+   * @example
+   * ```ts
+   * Assert.satisfies(row[4], "isCostCentre", [], `Row ${i}`)
+   * Assert.satisfies(row, "hasColumns", [50])
+   * ```
+   * @see {@link Assert.doesNotSatisfy} for the opposite assertion.
+   */
+  public static satisfies(actual: unknown, name: string, args: unknown[] = [], message: string = ""): void {
+    Assert.checkCustom(actual, name, args, message, false)
+  }
+  // #endregion satisfies
+
+  // #region doesNotSatisfy
+  /**
+   * Asserts that a value doesn't satisfy a custom assertion registered with `Assert.extend`.
+   * @param actual - The actual value.
+   * @param name - Name of the custom assertion.
+   * @param args - (Optional) Arguments of the custom assertion, after the actual value.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value satisfies the assertion, or no assertion is registered with the name.
+   * @example
+   * ```ts
+   * Assert.doesNotSatisfy("CC-12", "isCostCentre")
+   * ```
+   * @see {@link Assert.satisfies} for the opposite assertion.
+   */
+  public static doesNotSatisfy(actual: unknown, name: string, args: unknown[] = [], message: string = ""): void {
+    Assert.checkCustom(actual, name, args, message, true)
+  }
+  // #endregion doesNotSatisfy
+
+  // #region soft
+  /**
+   * Runs soft assertions: the assertions called through the `soft` parameter (the `Assert` methods and `expect`)
+   * record their failures instead of throwing, so all the problems are found, e.g. in every column of an output row.
+   * Once the function returns, a single `AssertionError` listing all the failures is thrown, with them in `failures`.
+   * An `AssertionError` thrown directly by the function (e.g. by `Assert` instead of `soft`) is also listed, but ends
+   * the function. Other errors are thrown as is.
+   * @param fn - Function running the assertions through its `soft` parameter.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If any assertion failed, or if the function is asynchronous (use `Assert.softAsync`).
+   * @example
+   * ```ts
+   * Assert.soft(soft => {
+   *   soft.equals(row[0], "INV-0042", "Invoice")
+   *   soft.closeTo(row[1], 99.9, 0.005, "Amount")
+   *   soft.expect(row[2], "Cost centre").toSatisfy("isCostCentre")
+   * }, "Row 3")
+   * // Fails: Row 3: 2 soft assertion(s) failed:
+   * //          1) Invoice: Assertion failed: actual ("INV-0041" : string) !== expected ("INV-0042" : string)
+   * //          2) Cost centre: Expected ("CC-12") to be a valid cost centre code (CC-nnnn)
+   * ```
+   * @see {@link Assert.softAsync} for asynchronous assertions.
+   */
+  public static soft(fn: (soft: SoftAssert) => void, message: string = ""): void {
+    const failures: AssertionError[] = []
+    try {
+      const result: unknown = fn(Assert.softAssert(failures))
+      if (result instanceof Promise) {
+        (result as Promise<unknown>).catch((): undefined => undefined) // Not awaited, its rejection must not be unhandled
+        throw new AssertionError("Assert.soft() cannot wait for an asynchronous function, use Assert.softAsync() instead.",
+          { operator: "soft", userMessage: message })
+      }
+    } catch (e) {
+      Assert.recordSoftFailure(failures, e)
+    }
+    Assert.throwSoftFailures(failures, message)
+  }
+
+  /**
+   * Runs asynchronous soft assertions, see `Assert.soft`. Await the asynchronous assertions (e.g. `soft.rejects`)
+   * inside the function, so their failures are recorded before the report.
+   * @param fn - Asynchronous function running the assertions through its `soft` parameter.
+   * @param message - (Optional) Message to prefix in case of failure.
+   * @returns A Promise resolving once the function is completed, rejecting if any assertion failed.
+   * @throws AssertionError - If any assertion failed.
+   * @example
+   * ```ts
+   * await Assert.softAsync(async soft => {
+   *   const data = await fetchData()
+   *   soft.hasLength(data.rows, 50, "Rows")
+   *   await soft.rejects(() => fetchData("bad-url"), Error, "Not found")
+   * })
+   * ```
+   */
+  public static async softAsync(fn: (soft: SoftAssert) => Promise<void>, message: string = ""): Promise<void> {
+    const failures: AssertionError[] = []
+    try {
+      await fn(Assert.softAssert(failures))
+    } catch (e) {
+      Assert.recordSoftFailure(failures, e)
+    }
+    Assert.throwSoftFailures(failures, message)
+  }
+  // #endregion soft
+
+  // #region isInstanceOf
+  /**
+   * Asserts that the value is an instance of the specified constructor.
+   * Throws `AssertionError` if not.
+   * @param value - The value to check.
+   * @param ctor - The class/constructor function.
+   * @param message - Optional error message prefix.
+   * @return {void} - This method does not return a value.
+   * @throws AssertionError - If the value is not an instance of the constructor.
+   * @example
+   * ```ts
+   * class MyClass {}
+   * const instance = new MyClass()
+   * Assert.isInstanceOf(instance, MyClass, "Should be an instance of MyClass")
+   * Assert.isInstanceOf(instance, Object) // Passes, since all classes inherit from Object
+   * Assert.isInstanceOf(42, MyClass) // Fails
+   * ```
+   * @see {@link Assert.isNotInstanceOf} for the opposite assertion.
+   */
+  public static isInstanceOf(
+    value: unknown,
+    ctor: Function,
+    message: string = ""
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    if (typeof ctor !== "function") {
+      throw new AssertionError(`${PREFIX}Provided constructor is not a function or class.`,
+        { expected: ctor, operator: "isInstanceOf", userMessage: message })
+    }
+    const DETAILS: AssertionErrorDetails = { actual: value, expected: ctor.name, operator: "isInstanceOf", userMessage: message }
+    if (value == null || (typeof value !== "object" && typeof value !== "function")) {
+      throw new AssertionError(
+        `${PREFIX}Expected instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`, DETAILS
+      )
+    }
+    if (!(value instanceof ctor)) {
+      throw new AssertionError(
+        `${PREFIX}Expected value to be instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`, DETAILS
+      )
+    }
+  }
+  // #endregion isInstanceOf
+
+  // #region isNotInstanceOf
+  /**
+   * Asserts that the value is NOT an instance of the specified constructor.
+   * Throws `AssertionError` if it is.
+   * @param value - The value to check.
+   * @param ctor - The class/constructor function.
+   * @param message - Optional error message prefix.
+   * @return {void} - This method does not return a value.
+   * @throws AssertionError - If the value is an instance of the constructor.
+   * @example
+   * ```ts
+   * class MyClass {}
+   * const instance = new MyClass()
+   * Assert.isNotInstanceOf(instance, String, "Should not be an instance of String")
+   * Assert.isNotInstanceOf(instance, MyClass) // Fails
+   * Assert.isNotInstanceOf(42, MyClass) // Passes, since 42 is not an instance of MyClass
+   * ```
+   * @see {@link Assert.isInstanceOf} for the opposite assertion.
+   */
+  public static isNotInstanceOf(
+    value: unknown,
+    ctor: Function,
+    message: string = ""
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    if (typeof ctor !== "function") {
+      throw new AssertionError(`${PREFIX}Provided constructor is not a function or class.`,
+        { expected: ctor, operator: "isNotInstanceOf", userMessage: message })
+    }
+    if (value != null && (typeof value === "object" || typeof value === "function") && value instanceof ctor) {
+      throw new AssertionError(
+        `${PREFIX}Expected value NOT to be instance of ${ctor.name}, but got (${Assert.safeStringify(value)})`,
+        { actual: value, expected: ctor.name, operator: "isNotInstanceOf", userMessage: message }
+      )
+    }
+  }
+  // #endregion isNotInstanceOf
+
+  // #region arraysEqual
+  /**
+   * Asserts that two one-dimensional arrays are equal by type and value.
+   * Supports arrays of primitives and arrays of objects (deep comparison via `deepEqual`).
+   * If any of the arrays is nested (contains objects or arrays), the message lists the differences by path.
+   * Designed for internal use only.
+   * @param a - Actual array.
+   * @param b - Expected array.
+   * @param message - (Optional) Prefix message for errors.
+   * @returns {boolean} - Returns true if arrays are equal, otherwise throws an error.
+   * @throws AssertionError - If arrays differ in length, type, or value at any index.
+   * @private
+   */
+  private static arraysEqual<T>(a: T[], b: T[], message: string = ""): boolean {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual: a, expected: b, operator: "equals", userMessage: message }
+    const isNested = a.concat(b).some(value => typeof value === "object" && value !== null && !(value instanceof AsymmetricMatcher))
+    const fail = (msg: string): never => {
+      throw new AssertionError(isNested ? Assert.withDifferences(`${PREFIX}${msg}`, a, b) : `${PREFIX}${msg}`, DETAILS)
+    }
+
+    if (a.length !== b.length) {
+      fail(`Array length mismatch: actual (${a.length}) !== expected (${b.length})`)
+    }
+
+    for (let i = 0; i < a.length; i++) {
+      const actualValue = a[i]
+      const expectedValue = b[i]
+      const actualType = typeof actualValue
+      const expectedType = typeof expectedValue
+
+      if ((i in a) !== (i in b)) {
+        const show = (arr: T[]) => i in arr ? Assert.preview(arr[i]) : "<empty>"
+        fail(`Array value mismatch at index ${i}: actual (${show(a)}) !== expected (${show(b)})`)
+      }
+
+      if (expectedValue instanceof AsymmetricMatcher) {
+        if (!expectedValue.matches(actualValue)) {
+          fail(`Array value mismatch at index ${i}: actual (${Assert.preview(actualValue)}) does not match ${String(expectedValue)}`)
+        }
+        continue
+      }
+
+      if (actualType !== expectedType) {
+        fail(`Array type mismatch at index ${i}: actual (${Assert.preview(actualValue)} : ${actualType}) !== expected (${Assert.preview(expectedValue)} : ${expectedType})`)
+      }
+
+      if (actualType === "object" && expectedType === "object" && actualValue !== null && expectedValue !== null) {
+        if (!Assert.deepEqual(actualValue, expectedValue)) {
+          fail(`Array object value mismatch at index ${i}: actual (${Assert.preview(actualValue)}) !== expected (${Assert.preview(expectedValue)})`)
+        }
+        continue
+      }
+
+      if (!Assert.deepEqual(actualValue, expectedValue)) {
+        fail(`Array value mismatch at index ${i}: actual (${Assert.preview(actualValue)}) !== expected (${Assert.preview(expectedValue)})`)
+      }
+    }
+    return true // for consistency; return value is not used
   }
   // #endregion arraysEqual
 
-  // #region safeStringify
-    /**
-   * Returns a safe string representation of any value, handling cases where
-   * toString may throw or misbehave. Used internally by assertion methods.
-   * Tries `JSON.stringify`, then `value.toString()`, then `Object.prototype.toString.call(value)`.
-   * If all fail, returns `[unprintable value]`.
-   * @param value - The value to stringify.
-   * @returns A string representation of the value, or "[unprintable value]" if not possible.
+  // #region deepEqual
+  /**
+   * Checks whether two values are deeply equal, see `Assert.equals` for the rules.
+   * Asymmetric matchers in the second value match the corresponding parts of the first one.
+   * Designed for internal use only.
+   * @param a - First value.
+   * @param b - Second value, the expected one.
+   * @param pairs - The pairs of objects being compared, to stop on circular references.
+   * @returns {boolean} - True if the values are deeply equal.
+   * @example
+   * ```ts
+   * Assert.deepEqual({ a: 1, b: [NaN] }, { b: [NaN], a: 1 }) // true
+   * Assert.deepEqual(new Set([1, 2]), new Set([2, 1]))     // true
+   * Assert.deepEqual({ a: undefined }, {})                // false
+   * ```
+   * @private
+   */
+  private static deepEqual(a: unknown, b: unknown, pairs: [object, object][] = []): boolean {
+    if (Object.is(a, b)) {
+      return true
+    }
+    if (b instanceof AsymmetricMatcher) {
+      return b.matches(a)
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+      return false
+    }
+    if (pairs.some(([x, y]) => x === a && y === b)) {
+      return true // Already being compared: equal unless a difference is found elsewhere
+    }
+    if (Array.isArray(a) !== Array.isArray(b)
+      || (a instanceof Date) !== (b instanceof Date)
+      || (a instanceof RegExp) !== (b instanceof RegExp)
+      || (a instanceof Map) !== (b instanceof Map)
+      || (a instanceof Set) !== (b instanceof Set)) {
+      return false
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return Object.is(a.getTime(), b.getTime())
+    }
+    if (a instanceof RegExp && b instanceof RegExp) {
+      return a.source === b.source && a.flags === b.flags
+    }
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+      return false
+    }
+    if (Assert.isBoxedPrimitive(a)) {
+      return Object.is(a.valueOf(), (b as object).valueOf())
+    }
+    if (a instanceof Error && b instanceof Error && (a.name !== b.name || a.message !== b.message)) {
+      return false
+    }
+    if (Array.isArray(a) && Array.isArray(b) && a.length !== b.length) {
+      return false
+    }
+    pairs.push([a, b])
+    let equal: boolean
+    if (a instanceof Map && b instanceof Map) {
+      equal = a.size === b.size && Array.from(a.entries()).every(([key, value]) =>
+        b.has(key) && Assert.deepEqual(value, b.get(key), pairs))
+    } else if (a instanceof Set && b instanceof Set) {
+      const unmatched = Array.from(b.values()) // Each value of b matches a single value of a
+      equal = a.size === b.size && Array.from(a.values()).every(value => {
+        let index = unmatched.findIndex(other => Object.is(value, other))
+        if (index === -1) {
+          index = unmatched.findIndex(other => Assert.deepEqual(value, other, pairs))
+        }
+        return index !== -1 && unmatched.splice(index, 1).length === 1
+      })
+    } else {
+      const keysA = Object.keys(a)
+      const keysB = Object.keys(b)
+      equal = keysA.length === keysB.length && keysA.every(key =>
+        Object.prototype.hasOwnProperty.call(b, key)
+        && Assert.deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], pairs))
+    }
+    pairs.pop()
+    return equal
+  }
+
+  /**
+   * Checks whether a value is a `Number`, `String` or `Boolean` object, compared by its primitive value.
+   * Designed for internal use only.
+   * @param value - The value.
+   * @returns {boolean} - True if the value is a boxed primitive.
+   * @private
+   */
+  private static isBoxedPrimitive(value: unknown): value is Number | String | Boolean {
+    return value instanceof Number || value instanceof String || value instanceof Boolean
+  }
+
+  /**
+   * Checks whether a value matches an expected value partially: expected objects only need to match the properties
+   * they have, recursively, see `Assert.matchesObject`. Designed for internal use only.
+   * @param actual - The actual value.
+   * @param expected - The expected value.
+   * @param pairs - (Optional) The pairs of objects being compared, to stop on circular references.
+   * @returns {boolean} - True if the value matches.
+   * @private
+   */
+  private static matchesPartially(actual: unknown, expected: unknown, pairs: [object, object][] = []): boolean {
+    if (!Assert.isStructure(expected) || !Assert.isStructure(actual) || Array.isArray(actual) !== Array.isArray(expected)) {
+      return Assert.deepEqual(actual, expected)
+    }
+    if (pairs.some(([x, y]) => x === actual && y === expected)) {
+      return true // Already being compared: matching unless a difference is found elsewhere
+    }
+    pairs.push([actual as object, expected as object])
+    let matching: boolean
+    if (Array.isArray(actual) && Array.isArray(expected)) {
+      matching = actual.length === expected.length && expected.every((value, i) => Assert.matchesPartially(actual[i], value, pairs))
+    } else {
+      matching = Object.keys(expected as object).every(key => key in (actual as object)
+        && Assert.matchesPartially((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key], pairs))
+    }
+    pairs.pop()
+    return matching
+  }
+
+  /**
+   * Checks whether a value is an object or array compared property by property: not `null`, a `Date`, `RegExp`,
+   * `Map`, `Set` or an asymmetric matcher. Designed for internal use only.
+   * @param value - The value.
+   * @returns {boolean} - True if the value is compared property by property.
+   * @private
+   */
+  private static isStructure(value: unknown): boolean {
+    return typeof value === "object" && value !== null && !(value instanceof Date || value instanceof RegExp
+      || value instanceof Map || value instanceof Set || value instanceof AsymmetricMatcher)
+  }
+  // #endregion deepEqual
+
+  // #region operands
+  /**
+   * Creates the error of an invalid operand, e.g. a number passed to a string assertion. Its operator is the name of
+   * the assertion prefixed with `invalid `, so a negated expectation (`expect(...).not`) reports it instead of
+   * passing. Designed for internal use only.
+   * @param message - The error message.
+   * @param details - Details of the error.
+   * @returns {AssertionError} - The error, to throw.
+   * @private
+   */
+  private static invalidOperand(message: string, details: AssertionErrorDetails): AssertionError {
+    return new AssertionError(message, { ...details, operator: `invalid ${details.operator}` })
+  }
+  // #endregion operands
+
+  // #region closeness
+  /**
+   * Describes why two numbers are not close: the difference (delta) and the tolerance, see `Tolerance`.
+   * Designed for internal use only, by `Assert.closeTo`.
+   * @param actual - The actual number.
+   * @param expected - The expected number.
+   * @param absolute - The absolute tolerance.
+   * @param relative - The relative tolerance.
+   * @returns The description, or an empty string if the numbers are close.
+   * @example
+   * ```ts
+   * Assert.farDescription(1.1, 1, 0.05, 0) // "delta (0.10000000000000009) > tolerance (0.05)"
+   * ```
+   * @private
+   */
+  private static farDescription(actual: number, expected: number, absolute: number, relative: number): string {
+    if (Object.is(actual, expected) || actual === expected) { // NaN is close to NaN, -0 to 0
+      return ""
+    }
+    if (!Number.isFinite(actual) || !Number.isFinite(expected)) {
+      return "infinite and NaN values are only close to themselves"
+    }
+    const delta = Math.abs(actual - expected)
+    const tolerance = Math.max(absolute, relative * Math.max(Math.abs(actual), Math.abs(expected)))
+    return delta <= tolerance ? "" : `delta (${delta}) > tolerance (${tolerance})`
+  }
+
+  /**
+   * Walks two arrays recursively and collects a description of each element which is not close, prefixed by its
+   * path (`[i][j]`). Designed for internal use only, by `Assert.closeTo`.
+   * @param actual - The actual array.
+   * @param expected - The expected array, with the same length.
+   * @param path - The path of the arrays from the root.
+   * @param absolute - The absolute tolerance.
+   * @param relative - The relative tolerance.
+   * @param differences - The list where the differences are added.
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private static collectFarValues(
+    actual: unknown[],
+    expected: unknown[],
+    path: string,
+    absolute: number,
+    relative: number,
+    differences: string[]
+  ): void {
+    for (let i = 0; i < expected.length; i++) {
+      const actualValue = actual[i]
+      const expectedValue = expected[i]
+      const elementPath = `${path}[${i}]`
+      if (Array.isArray(actualValue) && Array.isArray(expectedValue)) {
+        if (actualValue.length !== expectedValue.length) {
+          differences.push(`${elementPath}: length mismatch, actual (${actualValue.length}) !== expected (${expectedValue.length})`)
+        } else {
+          Assert.collectFarValues(actualValue, expectedValue, elementPath, absolute, relative, differences)
+        }
+      } else if (typeof actualValue === "number" && typeof expectedValue === "number") {
+        const far = Assert.farDescription(actualValue, expectedValue, absolute, relative)
+        if (far) {
+          differences.push(`${elementPath}: actual (${Assert.safeStringify(actualValue)}) !== expected (${Assert.safeStringify(expectedValue)}), ${far}`)
+        }
+      } else if (!Assert.deepEqual(actualValue, expectedValue)) {
+        differences.push(`${elementPath}: actual (${Assert.preview(actualValue)} : ${Assert.typeName(actualValue)}) !== ` +
+          `expected (${Assert.preview(expectedValue)} : ${Assert.typeName(expectedValue)})`)
+      }
+    }
+  }
+
+  /**
+   * Returns the type of a value for failure messages: `typeof`, except `null` and `array`.
+   * Designed for internal use only.
+   * @param value - The value.
+   * @returns The type name.
+   * @private
+   */
+  private static typeName(value: unknown): string {
+    return value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+  }
+  // #endregion closeness
+
+  // #region text
+  /**
+   * Checks that the actual value of a string assertion is a string. Designed for internal use only.
+   * @param actual - The actual value.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value is not a string.
+   * @private
+   */
+  private static checkString(actual: unknown, PREFIX: string, details: AssertionErrorDetails): void {
+    if (typeof actual !== "string") {
+      throw Assert.invalidOperand(`${PREFIX}Expected a string, but got (${Assert.preview(actual)} : ${Assert.typeName(actual)})`, details)
+    }
+  }
+
+  /**
+   * Returns the first match of a regular expression, ignoring its `g` and `y` flags. Designed for internal use only.
+   * @param text - The string to search.
+   * @param pattern - The regular expression.
+   * @returns The match, or `null` if there is none.
+   * @private
+   */
+  private static firstMatch(text: string, pattern: RegExp): RegExpExecArray | null {
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "")).exec(text)
+  }
+
+  /**
+   * Applies the string options before comparing: lower case and/or whitespace removed.
+   * Designed for internal use only.
+   * @param text - The string.
+   * @param options - The string options.
+   * @returns The string to compare.
+   * @private
+   */
+  private static normalizeText(text: string, options: TextOptions): string {
+    const noWhitespace = options.ignoreWhitespace ? String(text).replace(/\s+/g, "") : String(text)
+    return options.ignoreCase ? noWhitespace.toLowerCase() : noWhitespace
+  }
+
+  /**
+   * Describes the string options for failure messages, e.g. ` (ignoring case and whitespace)`.
+   * Designed for internal use only.
+   * @param options - The string options.
+   * @returns The description, or an empty string if nothing is ignored.
+   * @private
+   */
+  private static describeTextOptions(options: TextOptions): string {
+    const ignored = [options.ignoreCase ? "case" : "", options.ignoreWhitespace ? "whitespace" : ""].filter(Boolean)
+    return ignored.length ? ` (ignoring ${ignored.join(" and ")})` : ""
+  }
+
+  /**
+   * Returns the index of the first differing character of two strings. Designed for internal use only.
+   * @param a - First string.
+   * @param b - Second string.
+   * @returns The index, or -1 if the strings are equal.
+   * @private
+   */
+  private static firstDifference(a: string, b: string): number {
+    if (a === b) {
+      return -1
+    }
+    let i = 0
+    while (i < a.length && i < b.length && a[i] === b[i]) {
+      i++
+    }
+    return i
+  }
+
+  /**
+   * Describes the first difference of two strings, with the text around it.
+   * Designed for internal use only.
+   * @param a - The actual string.
+   * @param b - The expected string.
+   * @returns The description, e.g. `First difference at index 12: actual ("...eet1!A1:C10") !== expected ("...eet1!A1:C11")`.
+   * @private
+   */
+  private static describeFirstDifference(a: string, b: string): string {
+    const index = Assert.firstDifference(a, b)
+    const CONTEXT = 10 // Number of characters shown around the difference
+    const excerpt = (text: string) => {
+      if (index >= text.length) {
+        return index > CONTEXT ? `"...${text.slice(index - CONTEXT)}" (end of string)` : `${JSON.stringify(text)} (end of string)`
+      }
+      const start = Math.max(0, index - CONTEXT)
+      const end = Math.min(text.length, index + CONTEXT)
+      const quoted = JSON.stringify(text.slice(start, end)).slice(1, -1)
+      return `"${start > 0 ? "..." : ""}${quoted}${end < text.length ? "..." : ""}"`
+    }
+    return `First difference at index ${index}: actual (${excerpt(a)}) !== expected (${excerpt(b)})`
+  }
+  // #endregion text
+
+  // #region order
+  /**
+   * Checks the order of two values for the comparison assertions. Designed for internal use only.
+   * @param actual - The actual value.
+   * @param bound - The value to compare with.
+   * @param operator - The comparison assertion.
+   * @param message - Prefix for the error message if the check fails.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the order is not the expected one, or the values cannot be compared.
+   * @private
+   */
+  private static checkOrder(
+    actual: Comparable,
+    bound: Comparable,
+    operator: "greaterThan" | "greaterThanOrEqual" | "lessThan" | "lessThanOrEqual",
+    message: string
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const DETAILS: AssertionErrorDetails = { actual, expected: bound, operator, userMessage: message }
+    const order = Assert.compare(actual, bound, PREFIX, DETAILS)
+    const [passed, relation] = {
+      greaterThan: [order > 0, "greater than"],
+      greaterThanOrEqual: [order >= 0, "greater than or equal to"],
+      lessThan: [order < 0, "less than"],
+      lessThanOrEqual: [order <= 0, "less than or equal to"]
+    }[operator] as [boolean, string]
+    if (!passed) {
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) to be ${relation} (${Assert.safeStringify(bound)})`,
+        DETAILS
+      )
+    }
+  }
+
+  /**
+   * Compares two numbers, strings or Dates of the same kind. Designed for internal use only.
+   * @param a - First value.
+   * @param b - Second value.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns A negative number if `a` is less than `b`, `0` if they are equal, a positive number otherwise.
+   * @throws AssertionError - If the values are of different kinds, or are `NaN` or invalid Dates.
+   * @private
+   */
+  private static compare(a: Comparable, b: Comparable, PREFIX: string, details: AssertionErrorDetails): number {
+    const kind = (value: unknown) => value instanceof Date ? "Date" : typeof value
+    if (kind(a) !== kind(b) || ["number", "string", "Date"].indexOf(kind(a)) === -1) {
+      throw Assert.invalidOperand(
+        `${PREFIX}Cannot compare (${Assert.safeStringify(a)} : ${kind(a)}) with (${Assert.safeStringify(b)} : ${kind(b)}), ` +
+        `expected two numbers, strings or Dates`,
+        details
+      )
+    }
+    const x = a instanceof Date ? a.getTime() : a
+    const y = b instanceof Date ? b.getTime() : b
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      throw Assert.invalidOperand(
+        `${PREFIX}Cannot compare (${Assert.safeStringify(a)}) with (${Assert.safeStringify(b)}), NaN and invalid Dates have no order`,
+        details
+      )
+    }
+    return x < y ? -1 : x > y ? 1 : 0
+  }
+  // #endregion order
+
+  // #region collections
+  /**
+   * Returns the members of a collection for the collection assertions: the elements of an array, the characters
+   * of a string, the values of a Set and the values (or entries) of a Map. Designed for internal use only.
+   * @param collection - The collection.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @param entries - (Optional) If true, the members of a Map are its `[key, value]` entries.
+   * @returns The members.
+   * @throws AssertionError - If the value is not an array, string, Map or Set.
+   * @private
+   */
+  private static membersOf(collection: unknown, PREFIX: string, details: AssertionErrorDetails, entries: boolean = false): unknown[] {
+    if (typeof collection === "string") return collection.split("")
+    if (Array.isArray(collection)) return collection
+    if (collection instanceof Set) return Array.from(collection.values())
+    if (collection instanceof Map) return entries ? Array.from(collection.entries()) : Array.from(collection.values())
+    throw Assert.invalidOperand(
+      `${PREFIX}Expected an array, string, Map or Set, but got (${Assert.preview(collection)} : ${Assert.typeName(collection)})`,
+      details
+    )
+  }
+
+  /**
+   * Returns the length of an array or string, or the size of a Map or Set. Designed for internal use only.
+   * @param collection - The collection.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns The length or size, and the name of the property (`length` or `size`).
+   * @throws AssertionError - If the value is not an array, string, Map or Set.
+   * @private
+   */
+  private static sizeOf(collection: unknown, PREFIX: string, details: AssertionErrorDetails): [number, string] {
+    if (collection instanceof Map || collection instanceof Set) {
+      return [collection.size, "size"]
+    }
+    return [Assert.membersOf(collection, PREFIX, details).length, "length"]
+  }
+
+  /**
+   * Returns the index of the first member of a collection deeply equal to a value, or of a substring in a string.
+   * Designed for internal use only.
+   * @param collection - The collection.
+   * @param value - The value (or substring) to search for.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns The index, or `-1` if the value is not found.
+   * @throws AssertionError - If the value is not a collection, or a string is searched for something else than a string.
+   * @private
+   */
+  private static indexOfMember(collection: unknown, value: unknown, PREFIX: string, details: AssertionErrorDetails): number {
+    if (typeof collection === "string") {
+      if (typeof value !== "string") {
+        throw Assert.invalidOperand(
+          `${PREFIX}Expected a substring to search for in a string, but got (${Assert.preview(value)} : ${Assert.typeName(value)})`,
+          details
+        )
+      }
+      return collection.indexOf(value)
+    }
+    return Assert.membersOf(collection, PREFIX, details).findIndex(member => Assert.deepEqual(member, value))
+  }
+
+  /**
+   * Formats members for a failure message, e.g. `(1), ("a")`, listing up to `MAX_DIFFERENCES` of them.
+   * Designed for internal use only.
+   * @param members - The members.
+   * @returns The formatted list.
+   * @private
+   */
+  private static listMembers(members: unknown[]): string {
+    const listed = members.slice(0, Assert.MAX_DIFFERENCES).map(member => `(${Assert.preview(member)})`).join(", ")
+    return members.length > Assert.MAX_DIFFERENCES ? `${listed} ... and ${members.length - Assert.MAX_DIFFERENCES} more` : listed
+  }
+  // #endregion collections
+
+  // #region cells
+  /**
+   * Compares the expected values with the block of the actual values at the given offset, and throws an
+   * `AssertionError` listing the mismatching cells and a grid of the mismatching region, if any.
+   * Designed for internal use only, by the range assertions. The block must be inside the actual values.
+   * @param actual - The actual values.
+   * @param expected - The expected values.
+   * @param rowOffset - Index of the row of the actual values where the block starts.
+   * @param columnOffset - Index of the column of the actual values where the block starts.
+   * @param options - The range options.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If any cell differs.
+   * @private
+   */
+  private static compareCells(
+    actual: CellValue[][],
+    expected: CellValue[][],
+    rowOffset: number,
+    columnOffset: number,
+    options: RangeOptions,
+    PREFIX: string,
+    details: AssertionErrorDetails
+  ): void {
+    const [originRow, originColumn] = Assert.parseCell(options.origin || "A1", PREFIX, details)
+    const tolerance: Tolerance = options.tolerance === undefined ? {}
+      : typeof options.tolerance === "number" ? { absolute: options.tolerance } : options.tolerance
+    const { absolute = 0, relative = 0 } = tolerance
+    const isEmpty = (value: CellValue) => value == null || (!options.strictEmpty && value === "")
+    const isEqual = (a: CellValue, e: CellValue) => (isEmpty(a) && isEmpty(e))
+      || (typeof a === "number" && typeof e === "number" ? !Assert.farDescription(a, e, absolute, relative) : Assert.deepEqual(a, e))
+
+    const mismatches: [number, number][] = [] // Row and column of each mismatching cell in the expected values
+    expected.forEach((values, i) => values.forEach((value, j) => {
+      if (!isEqual(actual[rowOffset + i][columnOffset + j], value)) {
+        mismatches.push([i, j])
+      }
+    }))
+    if (mismatches.length === 0) {
+      return
+    }
+
+    const address = (i: number, j: number) => Assert.cellAddress(originRow + rowOffset + i, originColumn + columnOffset + j)
+    const show = (value: CellValue) => value === undefined ? "(empty)" : Assert.safeStringify(value)
+    const lines = mismatches.slice(0, Assert.MAX_DIFFERENCES).map(([i, j]) =>
+      `  ${address(i, j)}: expected ${show(expected[i][j])}, got ${show(actual[rowOffset + i][columnOffset + j])}`)
+    if (mismatches.length > Assert.MAX_DIFFERENCES) {
+      lines.push(`  ... and ${mismatches.length - Assert.MAX_DIFFERENCES} more`)
+    }
+
+    // Grid of the region around the mismatching cells, starting at the first one
+    const top = mismatches[0][0]
+    const left = Math.min(...mismatches.map(([, j]) => j))
+    const bottom = Math.min(Math.max(...mismatches.map(([i]) => i)), top + Assert.MAX_GRID_ROWS - 1)
+    const right = Math.min(Math.max(...mismatches.map(([, j]) => j)), left + Assert.MAX_GRID_COLUMNS - 1)
+    const shorten = (text: string) => text.length > Assert.MAX_GRID_CELL_LENGTH
+      ? `${text.slice(0, Assert.MAX_GRID_CELL_LENGTH - 3)}...`
+      : text
+    const grid: string[][] = [[""]]
+    for (let j = left; j <= right; j++) {
+      grid[0].push(Assert.cellAddress(1, originColumn + columnOffset + j).replace(/\d+$/, ""))
+    }
+    for (let i = top; i <= bottom; i++) {
+      const row = [String(originRow + rowOffset + i)]
+      for (let j = left; j <= right; j++) {
+        const actualValue = actual[rowOffset + i][columnOffset + j]
+        row.push(isEqual(actualValue, expected[i][j])
+          ? shorten(show(actualValue))
+          : `${shorten(show(actualValue))} !== ${shorten(show(expected[i][j]))}`)
+      }
+      grid.push(row)
+    }
+    const widths = grid[0].map((_, j) => Math.max(...grid.map(row => row[j].length)))
+    const region = top === bottom && left === right ? address(top, left) : `${address(top, left)}:${address(bottom, right)}`
+    const gridLines = grid.map(row => `  ${row.map((cell, j) => cell.padEnd(widths[j])).join("  ")}`.replace(/\s+$/, ""))
+
+    throw new AssertionError(
+      `${PREFIX}Range values mismatch in ${mismatches.length} cell(s):\n${lines.join("\n")}\n` +
+      `Mismatching region ${region} (actual !== expected):\n${gridLines.join("\n")}`,
+      details
+    )
+  }
+
+  /**
+   * Returns the number of rows and columns of a 2D array: the number of columns is the one of the first row.
+   * Designed for internal use only.
+   * @param values - The 2D array.
+   * @returns The number of rows and columns.
+   * @private
+   */
+  private static dimensionsOf(values: unknown[][]): [number, number] {
+    return Array.isArray(values) ? [values.length, Array.isArray(values[0]) ? values[0].length : 0] : [0, 0]
+  }
+
+  /**
+   * Describes why a 2D array doesn't have the given dimensions. Designed for internal use only.
+   * @param values - The 2D array.
+   * @param rows - The expected number of rows.
+   * @param columns - The expected number of columns.
+   * @returns The description, e.g. `got (2 x 4)` or `row 2 has 1 column(s)`, or an empty string if the dimensions match.
+   * @private
+   */
+  private static dimensionsProblem(values: unknown[][], rows: number, columns: number): string {
+    const [actualRows, actualColumns] = Assert.dimensionsOf(values)
+    if (actualRows !== rows || (rows > 0 && actualColumns !== columns)) {
+      return `got (${actualRows} x ${actualColumns})`
+    }
+    const index = values.findIndex(row => !Array.isArray(row) || row.length !== columns)
+    if (index !== -1) {
+      return Array.isArray(values[index])
+        ? `row ${index + 1} has ${values[index].length} column(s)`
+        : `row ${index + 1} is not an array (${Assert.preview(values[index])})`
+    }
+    return ""
+  }
+
+  /**
+   * Parses the address of a cell (e.g. `B3`, `$B$3` or `Sheet1!B3:D5` for the top-left cell of a range).
+   * Designed for internal use only.
+   * @param address - The address.
+   * @param PREFIX - Prefix for the error message.
+   * @param details - Details of the error.
+   * @returns The row and column numbers, starting at 1.
+   * @throws AssertionError - If the address is invalid.
+   * @private
+   */
+  private static parseCell(address: string, PREFIX: string, details: AssertionErrorDetails): [number, number] {
+    const cell = String(address).split("!").pop().split(":")[0].replace(/\$/g, "").toUpperCase()
+    const match = /^([A-Z]{1,3})(\d+)$/.exec(cell)
+    if (!match || Number(match[2]) < 1) {
+      throw new AssertionError(`${PREFIX}Invalid cell address (${Assert.safeStringify(address)})`, details)
+    }
+    const column = match[1].split("").reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0)
+    return [Number(match[2]), column]
+  }
+
+  /**
+   * Returns the address of a cell, e.g. `B3`. Designed for internal use only.
+   * @param row - The row number, starting at 1.
+   * @param column - The column number, starting at 1.
+   * @returns The address.
+   * @private
+   */
+  private static cellAddress(row: number, column: number): string {
+    let letters = ""
+    for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+      letters = String.fromCharCode(65 + (n - 1) % 26) + letters
+    }
+    return `${letters}${row}`
+  }
+  // #endregion cells
+
+  // #region differences
+  /**
+   * Appends to a failure message the differences between two values, listed by path, if any.
+   * At most `MAX_DIFFERENCES` differences are listed, followed by the number of remaining ones.
+   * Designed for internal use only.
+   * @param message - The failure message.
+   * @param actual - The actual value.
+   * @param expected - The expected value.
+   * @param partial - (Optional) If true, properties of the actual objects which are not expected are ignored.
+   * @returns The message followed by the differences, or the message unchanged if no difference is found.
+   * @example
+   * ```ts
+   * Assert.withDifferences("Failed", { a: [1, 2] }, { a: [1, 3], b: 1 })
+   * // Failed
+   * // Differences:
+   * //   .a[1]: actual (2) !== expected (3)
+   * //   .b: missing, expected (1)
+   * ```
+   * @private
+   */
+  private static withDifferences(message: string, actual: unknown, expected: unknown, partial: boolean = false): string {
+    const differences: string[] = []
+    Assert.collectDifferences(actual, expected, "", differences, [], partial)
+    if (differences.length === 0) {
+      return message
+    }
+    const lines = differences.slice(0, Assert.MAX_DIFFERENCES).map(difference => `  ${difference.split("\n").join("\n    ")}`)
+    if (differences.length > Assert.MAX_DIFFERENCES) {
+      lines.push(`  ... and ${differences.length - Assert.MAX_DIFFERENCES} more`)
+    }
+    return `${message}\nDifferences:\n${lines.join("\n")}`
+  }
+
+  /**
+   * Walks two values recursively and collects a description of each difference, prefixed by its path:
+   * `[i]` for array indexes and `.key` (or `["key"]`) for object properties.
+   * Designed for internal use only.
+   * @param actual - The actual value.
+   * @param expected - The expected value.
+   * @param path - The path of the values from the root.
+   * @param differences - The list where the differences are added.
+   * @param ancestors - The actual objects being walked, to stop on circular references.
+   * @param partial - If true, properties of the actual objects which are not expected are ignored (see `Assert.matchesObject`).
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private static collectDifferences(
+    actual: unknown,
+    expected: unknown,
+    path: string,
+    differences: string[],
+    ancestors: unknown[],
+    partial: boolean = false
+  ): void {
+    if (partial ? Assert.matchesPartially(actual, expected) : Assert.deepEqual(actual, expected)) {
+      return
+    }
+    if (expected instanceof AsymmetricMatcher) {
+      differences.push(`${path || "(root)"}: actual (${Assert.preview(actual)}) does not match ${String(expected)}`)
+      return
+    }
+    if (Assert.isStructure(actual) && Assert.isStructure(expected) && Array.isArray(actual) === Array.isArray(expected)) {
+      if (ancestors.indexOf(actual) !== -1) {
+        return
+      }
+      ancestors.push(actual)
+      const where = path || "(root)"
+      const prototypeName = (value: object) => {
+        const prototype = Object.getPrototypeOf(value)
+        return prototype === null ? "null prototype" : prototype.constructor?.name || "anonymous class"
+      }
+      if (!partial && Object.getPrototypeOf(actual) !== Object.getPrototypeOf(expected)) {
+        differences.push(`${where}: different prototypes, actual (${prototypeName(actual as object)}) !== expected (${prototypeName(expected as object)})`)
+      } else if (!partial && Assert.isBoxedPrimitive(actual)) { // Compared by value only, shown by the failure message at the root
+        if (path) {
+          differences.push(`${path}: actual (${Assert.safeStringify(actual.valueOf())}) !== expected (${Assert.safeStringify((expected as object).valueOf())})`)
+        }
+        ancestors.pop()
+        return
+      } else if (actual instanceof Error && expected instanceof Error && (actual.name !== expected.name || actual.message !== expected.message)) {
+        differences.push(`${where}: actual (${actual.name}: ${actual.message}) !== expected (${expected.name}: ${expected.message})`)
+      }
+      if (Array.isArray(actual) && Array.isArray(expected)) {
+        const count = differences.length
+        for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+          Assert.collectEntry(actual, expected, i, `${path}[${i}]`, differences, ancestors, partial)
+        }
+        if (differences.length === count && actual.length !== expected.length) { // Only holes differ
+          differences.push(`${path}.length: actual (${actual.length}) !== expected (${expected.length})`)
+        }
+      }
+      // Properties, other than the indexes for arrays
+      const propertiesOf = (value: object) => Object.keys(value).filter(key => !Array.isArray(value) || !/^\d+$/.test(key))
+      const keys = propertiesOf(expected as object)
+      if (!partial) {
+        propertiesOf(actual as object).forEach(key => {
+          if (keys.indexOf(key) === -1) {
+            keys.push(key)
+          }
+        })
+      }
+      keys.forEach(key => {
+        const property = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+        Assert.collectEntry(actual as object, expected as object, key, `${path}${property}`, differences, ancestors, partial)
+      })
+      ancestors.pop()
+      return
+    }
+    if (!path) { // Already described by the failure message
+      return
+    }
+    if (Assert.isMultiline(actual, expected)) {
+      differences.push(`${path}: lines differ (- expected, + actual)\n${Assert.diffLines(String(actual), String(expected)).join("\n")}`)
+      return
+    }
+    const actualType = typeof actual
+    const expectedType = typeof expected
+    if (actualType !== expectedType) {
+      differences.push(`${path}: actual (${Assert.preview(actual)} : ${actualType}) !== expected (${Assert.preview(expected)} : ${expectedType})`)
+      return
+    }
+    differences.push(`${path}: actual (${Assert.preview(actual)}) !== expected (${Assert.preview(expected)})`)
+  }
+
+  /**
+   * Collects the differences of an array element or object property, reporting it as missing or unexpected if it
+   * is only present in one of the containers. Designed for internal use only, by `collectDifferences`.
+   * @param actual - The actual container.
+   * @param expected - The expected container.
+   * @param key - The index or property name.
+   * @param path - The path of the element or property.
+   * @param differences - The list where the differences are added.
+   * @param ancestors - The actual objects being walked.
+   * @param partial - If true, properties of the actual objects which are not expected are ignored.
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private static collectEntry(
+    actual: object,
+    expected: object,
+    key: string | number,
+    path: string,
+    differences: string[],
+    ancestors: unknown[],
+    partial: boolean
+  ): void {
+    const inActual = Object.prototype.hasOwnProperty.call(actual, key)
+    const inExpected = Object.prototype.hasOwnProperty.call(expected, key)
+    const actualValue = (actual as Record<string, unknown>)[key]
+    const expectedValue = (expected as Record<string, unknown>)[key]
+    if (!inActual && inExpected) {
+      differences.push(`${path}: missing, expected (${Assert.preview(expectedValue)})`)
+    } else if (inActual && !inExpected) {
+      differences.push(`${path}: unexpected (${Assert.preview(actualValue)})`)
+    } else {
+      Assert.collectDifferences(actualValue, expectedValue, path, differences, ancestors, partial)
+    }
+  }
+
+  /**
+   * Checks whether two values are strings and at least one of them has several lines, so a line diff is
+   * more readable than the values. Designed for internal use only.
+   * @param actual - The actual value.
+   * @param expected - The expected value.
+   * @returns {boolean} - True if both values are strings and any of them contains a line break.
+   * @private
+   */
+  private static isMultiline(actual: unknown, expected: unknown): boolean {
+    return typeof actual === "string" && typeof expected === "string" &&
+      (actual.indexOf("\n") !== -1 || expected.indexOf("\n") !== -1)
+  }
+
+  /**
+   * Compares two strings line by line (longest common subsequence) and returns the differing lines,
+   * prefixed by `- ` (expected only) or `+ ` (actual only), with one line of context around them.
+   * If the strings are too long to compare, the differing lines of both are listed instead.
+   * Designed for internal use only.
+   * @param actual - The actual string.
+   * @param expected - The expected string.
+   * @returns The lines of the diff.
+   * @example
+   * ```ts
+   * Assert.diffLines("a\nb\nc", "a\nx\nc") // ["  a", "- x", "+ b", "  c"]
+   * ```
+   * @private
+   */
+  private static diffLines(actual: string, expected: string): string[] {
+    const a = actual.split("\n")
+    const e = expected.split("\n")
+    let start = 0
+    while (start < a.length && start < e.length && a[start] === e[start]) {
+      start++
+    }
+    let endA = a.length, endE = e.length
+    while (endA > start && endE > start && a[endA - 1] === e[endE - 1]) {
+      endA--
+      endE--
+    }
+    const midA = a.slice(start, endA)
+    const midE = e.slice(start, endE)
+    let lines: string[] = []
+    if (midA.length * midE.length > Assert.MAX_LINE_DIFF_CELLS) {
+      lines = midE.map(line => `- ${line}`).concat(midA.map(line => `+ ${line}`))
+    } else {
+      // lcs[i][j]: length of the longest common subsequence of midA[i..] and midE[j..]
+      const lcs: number[][] = []
+      for (let i = midA.length; i >= 0; i--) {
+        lcs[i] = []
+        for (let j = midE.length; j >= 0; j--) {
+          lcs[i][j] = i === midA.length || j === midE.length ? 0
+            : midA[i] === midE[j] ? lcs[i + 1][j + 1] + 1
+              : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+        }
+      }
+      let i = 0, j = 0
+      while (i < midA.length || j < midE.length) {
+        if (i < midA.length && j < midE.length && midA[i] === midE[j]) {
+          lines.push(`  ${midA[i++]}`)
+          j++
+        } else if (j < midE.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+          lines.push(`- ${midE[j++]}`)
+        } else {
+          lines.push(`+ ${midA[i++]}`)
+        }
+      }
+    }
+    if (start > 0) {
+      lines.unshift(`  ${a[start - 1]}`)
+      if (start > 1) {
+        lines.unshift("  ...")
+      }
+    }
+    if (endA < a.length) {
+      lines.push(`  ${a[endA]}`)
+      if (endA + 1 < a.length) {
+        lines.push("  ...")
+      }
+    }
+    return lines
+  }
+
+  /**
+   * Returns the string representation of a value (see `safeStringify`). Objects, arrays and multi-line strings
+   * (with escaped line breaks) are shortened to `MAX_PREVIEW_LENGTH` characters, so failure messages on large
+   * values stay readable, the differences list the details. Designed for internal use only.
+   * @param value - The value to show.
+   * @returns The string representation of the value, ending with `...` if it was shortened.
+   * @private
+   */
+  private static preview(value: unknown): string {
+    const isMultiline = typeof value === "string" && value.indexOf("\n") !== -1
+    if (!isMultiline && (typeof value !== "object" || value === null)) {
+      return Assert.safeStringify(value)
+    }
+    const str = isMultiline ? JSON.stringify(value) : Assert.safeStringify(value)
+    return str.length > Assert.MAX_PREVIEW_LENGTH ? `${str.slice(0, Assert.MAX_PREVIEW_LENGTH - 3)}...` : str
+  }
+  // #endregion differences
+
+  // #region checkCustom
+  /**
+   * Runs a custom assertion registered with `Assert.extend`, or its negation. Designed for internal use only,
+   * shared by `Assert.satisfies` and `Assert.doesNotSatisfy`.
+   * @param actual - The actual value.
+   * @param name - Name of the custom assertion.
+   * @param args - Arguments of the custom assertion.
+   * @param message - Message to prefix in case of failure.
+   * @param negated - Whether the value must not satisfy the assertion.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the (negated) assertion fails, or no assertion is registered with the name.
+   * @private
+   */
+  private static checkCustom(actual: unknown, name: string, args: unknown[], message: string, negated: boolean): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const operator = negated ? `not ${name}` : name
+    const assertion = Assert.customAssertions.get(name)
+    if (!assertion) {
+      throw new AssertionError(`${PREFIX}Unknown custom assertion "${name}", register it with Assert.extend`,
+        { actual, operator, userMessage: message })
+    }
+    const result = assertion(actual, ...args)
+    if (result == null || typeof result.pass !== "boolean") {
+      throw new AssertionError(
+        `${PREFIX}Custom assertion "${name}" must return { pass, description }, but got (${Assert.safeStringify(result)})`,
+        { actual, operator, userMessage: message })
+    }
+    if (result.pass === negated) {
+      const DETAILS: AssertionErrorDetails = "expected" in result
+        ? { actual, expected: result.expected, operator, userMessage: message }
+        : { actual, operator, userMessage: message }
+      throw new AssertionError(
+        `${PREFIX}Expected (${Assert.safeStringify(actual)}) ${negated ? "not " : ""}${result.description}` +
+        (result.reason ? `, ${result.reason}` : ""),
+        DETAILS
+      )
+    }
+  }
+  // #endregion checkCustom
+
+  // #region softAssert
+  /**
+   * Creates the soft assertions of `Assert.soft`: the `Assert` methods of `SOFT_ASSERTIONS` catching and recording their `AssertionError`
+   * (when their Promise rejects for asynchronous assertions), and `expect` recording the failures of its matchers.
+   * Designed for internal use only.
+   * @param failures - The list where the failures are recorded.
+   * @returns The soft assertions.
+   * @private
+   */
+  private static softAssert(failures: AssertionError[]): SoftAssert {
+    const record = (e: unknown): undefined => {
+      Assert.recordSoftFailure(failures, e)
+      return undefined
+    }
+    const soft: Record<string, unknown> = {
+      expect: <T>(actual: T, message: string = "") => new Expectation(actual, message, false, record)
+    }
+    Assert.SOFT_ASSERTIONS.forEach(name => {
+      const method = (Assert as unknown as Record<string, (...args: unknown[]) => unknown>)[name]
+      soft[name] = (...args: unknown[]) => {
+        try {
+          const result: unknown = method.apply(Assert, args)
+          return result instanceof Promise ? result.catch(record) : result
+        } catch (e) {
+          return record(e)
+        }
+      }
+    })
+    return soft as unknown as SoftAssert
+  }
+
+  /**
+   * Records a failure of a soft assertion. Designed for internal use only.
+   * @param failures - The list where the failures are recorded.
+   * @param e - The thrown value.
+   * @returns {void} - This method does not return a value.
+   * @throws The thrown value, if it is not an `AssertionError`.
+   * @private
+   */
+  private static recordSoftFailure(failures: AssertionError[], e: unknown): void {
+    if (!(e instanceof AssertionError)) {
+      throw e
+    }
+    failures.push(e)
+  }
+
+  /**
+   * Throws the aggregated report of the failures of soft assertions, if any. Designed for internal use only.
+   * @param failures - The recorded failures.
+   * @param message - Message to prefix the report.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - Listing the failures, numbered, with them in `failures`.
+   * @private
+   */
+  private static throwSoftFailures(failures: AssertionError[], message: string): void {
+    if (failures.length === 0) {
+      return
+    }
+    const PREFIX = message ? `${message}: ` : ""
+    const list = failures.map((failure, i) => `  ${i + 1}) ${failure.message.split("\n").join("\n     ")}`)
+    throw new AssertionError(`${PREFIX}${failures.length} soft assertion(s) failed:\n${list.join("\n")}`,
+      { operator: "soft", userMessage: message, failures })
+  }
+  // #endregion softAssert
+
+  // #region checkError
+  /**
+   * Checks that a thrown (or rejection) value is an `Error` matching the expected type, message and predicate.
+   * Designed for internal use only, shared by `Assert.throws` and `Assert.rejects`.
+   * @param e - The thrown or rejection value.
+   * @param label - How the value was obtained, used in the error message (`Thrown` or `Rejected`).
+   * @param expectedErrorType - (Optional) Expected constructor of the error.
+   * @param expectedMessage - (Optional) Exact expected error message, regular expression or predicate.
+   * @param message - Prefix for the error message if the check fails.
+   * @param options - The predicate over the error and whether to accept values which are not `Error` instances.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the value does not match, with the `throws` or `rejects` operator.
+   * @private
+   */
+  private static checkError(
+    e: unknown,
+    label: "Thrown" | "Rejected",
+    expectedErrorType: Function | undefined,
+    expectedMessage: ExpectedMessage | undefined,
+    message: string,
+    options: ThrowsOptions<unknown>
+  ): void {
+    const PREFIX = message ? `${message}: ` : ""
+    const operator = label === "Thrown" ? "throws" : "rejects"
+    if (!(e instanceof Error) && !options.allowNonError) {
+      throw new AssertionError(`${PREFIX}${label} value is not an Error instance: (${Assert.safeStringify(e)})`,
+        { actual: e, operator, userMessage: message })
+    }
+
+    if (expectedErrorType && !(e instanceof expectedErrorType)) {
+      const actualType = e instanceof Error ? e.constructor.name : Assert.typeName(e)
+      throw new AssertionError(`${PREFIX}Expected error type ${expectedErrorType.name}, but got ${actualType}.`,
+        { actual: actualType, expected: expectedErrorType.name, operator, userMessage: message })
+    }
+
+    const actualMessage = e instanceof Error ? e.message : typeof e === "string" ? e : Assert.safeStringify(e)
+    const DETAILS: AssertionErrorDetails = { actual: actualMessage, expected: expectedMessage, operator, userMessage: message }
+    if (typeof expectedMessage === "string" && expectedMessage && actualMessage !== expectedMessage) {
+      throw new AssertionError(`${PREFIX}Expected message "${expectedMessage}", but got "${actualMessage}".`, DETAILS)
+    }
+    if (expectedMessage instanceof RegExp && Assert.firstMatch(actualMessage, expectedMessage) === null) {
+      throw new AssertionError(`${PREFIX}Expected message matching ${String(expectedMessage)}, but got "${actualMessage}".`, DETAILS)
+    }
+    if (typeof expectedMessage === "function" && !expectedMessage(actualMessage)) {
+      throw new AssertionError(`${PREFIX}Expected message to satisfy the predicate, but got "${actualMessage}".`, DETAILS)
+    }
+
+    if (options.predicate && !options.predicate(e)) {
+      const actualError = e instanceof Error ? `${e.name}: ${e.message}` : Assert.safeStringify(e)
+      throw new AssertionError(`${PREFIX}Expected error to satisfy the predicate, but got (${actualError}).`,
+        { actual: e, operator, userMessage: message })
+    }
+  }
+  // #endregion checkError
+
+  // #region safeStringify
+    /**
+   * Returns a safe string representation of any value, handling cases where
+   * toString may throw or misbehave. Used by the assertion methods to show values in failure messages.
+   * Shows `-0`, regular expressions, asymmetric matchers, `Map` and `Set` entries as such.
+   * For other objects, tries `JSON.stringify`, then `value.toString()`, then `Object.prototype.toString.call(value)`.
+   * If all fail, returns `[unprintable value]`.
+   * @param value - The value to stringify.
+   * @returns A string representation of the value, or "[unprintable value]" if not possible.
+   * @example
+   * ```ts
+   * throw new AssertionError(`Invalid cost centre (${Assert.safeStringify(code)})`, { actual: code })
+   * ```
+   */
+  public static safeStringify(value: unknown): string {
+    try {
+      if (typeof value === "string") return `"${value}"`
+      if (Object.is(value, -0)) return "-0"
+      if (value instanceof AsymmetricMatcher) return String(value)
+      if (value instanceof RegExp) return String(value)
+      if (value instanceof Map) {
+        return `Map {${Array.from(value.entries()).map(([k, v]) => `${Assert.safeStringify(k)} => ${Assert.safeStringify(v)}`).join(", ")}}`
+      }
+      if (value instanceof Set) {
+        return `Set {${Array.from(value.values()).map(v => Assert.safeStringify(v)).join(", ")}}`
+      }
+      if (value && typeof value === "object") {
+        // Try JSON.stringify
+        try {
+          return JSON.stringify(value)
+        } catch {
+          // Try value.toString() if it's a function
+          try {
+            if (typeof (value as { toString?: unknown }).toString === "function") {
+              return (value as { toString: () => string }).toString()
+            }
+          } catch {}
+          // Try Object.prototype.toString.call(value)
+          try {
+            return Object.prototype.toString.call(value)
+          } catch {}
+          // All else fails
+          return "[unprintable value]"
+        }
+      }
+      return String(value)
+    } catch {
+      return "[unprintable value]"
+    }
+  }
+  // #endregion safeStringify
+
+}
+
+// #endregion Assert
+
+// #region Expectation
+/**
+ * Fluent assertions on a value, created by `expect(value)`. Each matcher calls the corresponding `Assert` method,
+ * so both styles produce the same messages and `AssertionError` details. `.not` negates the next matcher: it calls
+ * the opposite `Assert` method if there is one (e.g. `Assert.notEquals` for `toEqual`), otherwise it passes if the
+ * assertion fails and throws `Expected (actual) not to ...` if it passes.
+ * @example
+ * ```ts
+ * expect(total, "Total").toEqual(10)                 // Same as Assert.equals(total, 10, "Total")
+ * expect(rows).not.toBeEmpty()                        // Same as Assert.isNotEmpty(rows)
+ * expect(() => parse("x")).toThrow(SyntaxError, /unexpected token/i)
+ * ```
+ */
+class Expectation<T> {
+  /** Constructor for `Expectation`, use `expect(value)` instead.
+   * @param actual - The value to check.
+   * @param message - (Optional) Message to prefix in case of failure, as for the `Assert` methods.
+   * @param negated - (Optional) Whether the matchers are negated.
+   * @param onFailure - (Optional) Function recording the failures instead of throwing them, used by `Assert.soft`.
+   */
+  constructor(
+    private readonly actual: T,
+    private readonly message: string = "",
+    private readonly negated: boolean = false,
+    private readonly onFailure?: (error: AssertionError) => void
+  ) { }
+
+  /** Negated expectation: the next matcher passes if the value does not satisfy it.
+   * @returns The negated expectation.
+   */
+  public get not(): Expectation<T> {
+    return new Expectation(this.actual, this.message, !this.negated, this.onFailure)
+  }
+
+  /** Deep equality, see `Assert.equals` (negated: `Assert.notEquals`). */
+  public toEqual(expected: T): void {
+    this.check(() => Assert.equals(this.actual, expected, this.message), () => Assert.notEquals(this.actual, expected, this.message))
+  }
+
+  /** Numbers or arrays of numbers close to the expected ones, see `Assert.closeTo`. */
+  public toBeCloseTo(expected: number | unknown[], tolerance?: number | Tolerance): void {
+    this.check(() => Assert.closeTo(this.actual as unknown as number, expected, tolerance, this.message),
+      `be close to (${Assert.safeStringify(expected)})`, { expected, operator: "closeTo" })
+  }
+
+  /** Truthy value, see `Assert.isTrue` (negated: `Assert.isFalse`). */
+  public toBeTruthy(): void {
+    this.check(() => Assert.isTrue(this.actual, this.message), () => Assert.isFalse(this.actual, this.message))
+  }
+
+  /** Falsy value, see `Assert.isFalse` (negated: `Assert.isTrue`). */
+  public toBeFalsy(): void {
+    this.check(() => Assert.isFalse(this.actual, this.message), () => Assert.isTrue(this.actual, this.message))
+  }
+
+  /** `null` value, see `Assert.isNull` (negated: `Assert.isNotNull`). */
+  public toBeNull(): void {
+    this.check(() => Assert.isNull(this.actual, this.message), () => Assert.isNotNull(this.actual, this.message))
+  }
+
+  /** `undefined` value, see `Assert.isUndefined` (negated: `Assert.isNotUndefined`). */
+  public toBeUndefined(): void {
+    this.check(() => Assert.isUndefined(this.actual, this.message), () => Assert.isNotUndefined(this.actual, this.message))
+  }
+
+  /** Value other than `undefined`, see `Assert.isDefined` (negated: `Assert.isUndefined`). */
+  public toBeDefined(): void {
+    this.check(() => Assert.isDefined(this.actual, this.message), () => Assert.isUndefined(this.actual, this.message))
+  }
+
+  /** Instance of a class, see `Assert.isInstanceOf` (negated: `Assert.isNotInstanceOf`). */
+  public toBeInstanceOf(ctor: Function): void {
+    this.check(() => Assert.isInstanceOf(this.actual, ctor, this.message), () => Assert.isNotInstanceOf(this.actual, ctor, this.message))
+  }
+
+  /** Value of a primitive type, see `Assert.isType` (negated: `Assert.isNotType`). */
+  public toBeTypeOf(type: "string" | "number" | "boolean" | "object" | "function" | "undefined" | "symbol" | "bigint"): void {
+    this.check(() => Assert.isType(this.actual, type, this.message), () => Assert.isNotType(this.actual, type, this.message))
+  }
+
+  /** See `Assert.greaterThan` (negated: `Assert.lessThanOrEqual`). */
+  public toBeGreaterThan(bound: Comparable): void {
+    const actual = this.actual as unknown as Comparable
+    this.check(() => Assert.greaterThan(actual, bound, this.message), () => Assert.lessThanOrEqual(actual, bound, this.message))
+  }
+
+  /** See `Assert.greaterThanOrEqual` (negated: `Assert.lessThan`). */
+  public toBeGreaterThanOrEqual(bound: Comparable): void {
+    const actual = this.actual as unknown as Comparable
+    this.check(() => Assert.greaterThanOrEqual(actual, bound, this.message), () => Assert.lessThan(actual, bound, this.message))
+  }
+
+  /** See `Assert.lessThan` (negated: `Assert.greaterThanOrEqual`). */
+  public toBeLessThan(bound: Comparable): void {
+    const actual = this.actual as unknown as Comparable
+    this.check(() => Assert.lessThan(actual, bound, this.message), () => Assert.greaterThanOrEqual(actual, bound, this.message))
+  }
+
+  /** See `Assert.lessThanOrEqual` (negated: `Assert.greaterThan`). */
+  public toBeLessThanOrEqual(bound: Comparable): void {
+    const actual = this.actual as unknown as Comparable
+    this.check(() => Assert.lessThanOrEqual(actual, bound, this.message), () => Assert.greaterThan(actual, bound, this.message))
+  }
+
+  /** Value within inclusive bounds, see `Assert.inRange`. */
+  public toBeInRange(min: Comparable, max: Comparable): void {
+    this.check(() => Assert.inRange(this.actual as unknown as Comparable, min, max, this.message),
+      `be in range [${Assert.safeStringify(min)}, ${Assert.safeStringify(max)}]`, { expected: [min, max], operator: "inRange" })
+  }
+
+  /** Array element (reference equality) or substring, see `Assert.contains`. */
+  public toContain(value: unknown): void {
+    this.check(() => Assert.contains(this.actual as unknown as unknown[] | string, value, this.message),
+      `contain (${Assert.safeStringify(value)})`, { expected: value, operator: "contains" })
+  }
+
+  /** Member deeply equal to a value, see `Assert.includesDeep` (negated: `Assert.doesNotContain`). */
+  public toContainEqual(value: unknown): void {
+    const actual = this.actual as unknown as Collection
+    this.check(() => Assert.includesDeep(actual, value, this.message), () => Assert.doesNotContain(actual, value, this.message))
+  }
+
+  /** Same members in any order, see `Assert.sameMembers`. */
+  public toHaveSameMembers(expected: Collection): void {
+    this.check(() => Assert.sameMembers(this.actual as unknown as Collection, expected, this.message),
+      `have the same members as (${Assert.safeStringify(expected)})`, { expected, operator: "sameMembers" })
+  }
+
+  /** Length of an array or string, size of a Map or Set, see `Assert.hasLength`. */
+  public toHaveLength(length: number): void {
+    this.check(() => Assert.hasLength(this.actual as unknown as Collection, length, this.message),
+      `have length (${length})`, { expected: length, operator: "hasLength" })
+  }
+
+  /** Empty collection, see `Assert.isEmpty` (negated: `Assert.isNotEmpty`). */
+  public toBeEmpty(): void {
+    const actual = this.actual as unknown as Collection
+    this.check(() => Assert.isEmpty(actual, this.message), () => Assert.isNotEmpty(actual, this.message))
+  }
+
+  /** Members in ascending order, see `Assert.isSorted`. */
+  public toBeSorted<M>(comparator?: (a: M, b: M) => number): void {
+    this.check(() => Assert.isSorted(this.actual as unknown as Collection<M>, comparator, this.message),
+      "be sorted", { operator: "isSorted" })
+  }
+
+  /** String matching a regular expression, see `Assert.matches` (negated: `Assert.doesNotMatch`). */
+  public toMatch(pattern: RegExp): void {
+    const actual = this.actual as unknown as string
+    this.check(() => Assert.matches(actual, pattern, this.message), () => Assert.doesNotMatch(actual, pattern, this.message))
+  }
+
+  /** String starting with a prefix, see `Assert.startsWith`. */
+  public toStartWith(prefix: string, options: TextOptions = {}): void {
+    this.check(() => Assert.startsWith(this.actual as unknown as string, prefix, options, this.message),
+      `start with (${Assert.safeStringify(prefix)})`, { expected: prefix, operator: "startsWith" })
+  }
+
+  /** String ending with a suffix, see `Assert.endsWith`. */
+  public toEndWith(suffix: string, options: TextOptions = {}): void {
+    this.check(() => Assert.endsWith(this.actual as unknown as string, suffix, options, this.message),
+      `end with (${Assert.safeStringify(suffix)})`, { expected: suffix, operator: "endsWith" })
+  }
+
+  /** String containing a substring, optionally ignoring case and whitespace, see `Assert.containsText`. */
+  public toContainText(substring: string, options: TextOptions = {}): void {
+    this.check(() => Assert.containsText(this.actual as unknown as string, substring, options, this.message),
+      `contain text (${Assert.safeStringify(substring)})`, { expected: substring, operator: "containsText" })
+  }
+
+  /** String equal to another one, optionally ignoring case and whitespace, see `Assert.stringEquals`. */
+  public toEqualText(expected: string, options: TextOptions = {}): void {
+    this.check(() => Assert.stringEquals(this.actual as unknown as string, expected, options, this.message),
+      `equal text (${Assert.safeStringify(expected)})`, { expected, operator: "stringEquals" })
+  }
+
+  /** Object matching a subset of properties, see `Assert.matchesObject`. */
+  public toMatchObject(expected: object): void {
+    this.check(() => Assert.matchesObject(this.actual, expected, this.message),
+      `match object (${Assert.safeStringify(expected)})`, { expected, operator: "matchesObject" })
+  }
+
+  /** Property at a dotted path, with an optional value, see `Assert.hasProperty`. */
+  public toHaveProperty(path: string, value?: unknown): void {
+    this.check(() => Assert.hasProperty(this.actual, path, value, this.message),
+      `have property "${path}"${value !== undefined ? ` (${Assert.safeStringify(value)})` : ""}`,
+      value !== undefined ? { expected: value, operator: "hasProperty" } : { operator: "hasProperty" })
+  }
+
+  /** 2D array of the given dimensions, see `Assert.hasDimensions`. */
+  public toHaveDimensions(rows: number, columns: number): void {
+    this.check(() => Assert.hasDimensions(this.actual as unknown as unknown[][], rows, columns, this.message),
+      `have dimensions ${rows} x ${columns}`, { expected: [rows, columns], operator: "hasDimensions" })
+  }
+
+  /** Range values equal to the expected ones, see `Assert.rangeEquals`. */
+  public toEqualRange(expected: CellValue[][], options: RangeOptions = {}): void {
+    this.check(() => Assert.rangeEquals(this.actual as unknown as CellValue[][], expected, options, this.message),
+      `equal range (${Assert.safeStringify(expected)})`, { expected, operator: "rangeEquals" })
+  }
+
+  /** Custom assertion registered with `Assert.extend`, see `Assert.satisfies` (negated: `Assert.doesNotSatisfy`). */
+  public toSatisfy(name: string, ...args: unknown[]): void {
+    this.check(() => Assert.satisfies(this.actual, name, args, this.message),
+      () => Assert.doesNotSatisfy(this.actual, name, args, this.message))
+  }
+
+  /** Function throwing an error, see `Assert.throws` (negated: `Assert.doesNotThrow`, which fails on any error,
+   * so the negation accepts no arguments). */
+  public toThrow<E = Error>(
+    expectedErrorType?: new (...args: never[]) => E,
+    expectedMessage?: ExpectedMessage,
+    options: ThrowsOptions<E> = {}
+  ): void {
+    this.checkNoArguments("toThrow", expectedErrorType, expectedMessage, options)
+    const fn = this.actual as unknown as () => unknown
+    this.check(() => { Assert.throws(fn, expectedErrorType, expectedMessage, this.message, options) },
+      () => Assert.doesNotThrow(fn, this.message))
+  }
+
+  /** Promise (or function returning one) rejecting, see `Assert.rejects` (negated: `Assert.doesNotReject`, which
+   * fails on any rejection, so the negation accepts no arguments). Await the result. */
+  public async toReject<E = Error>(
+    expectedErrorType?: new (...args: never[]) => E,
+    expectedMessage?: ExpectedMessage,
+    options: ThrowsOptions<E> = {}
+  ): Promise<void> {
+    this.checkNoArguments("toReject", expectedErrorType, expectedMessage, options)
+    const promiseOrFn = this.actual as unknown as Promise<unknown> | (() => Promise<unknown>)
+    try {
+      if (this.negated) {
+        await Assert.doesNotReject(promiseOrFn, this.message)
+      } else {
+        await Assert.rejects(promiseOrFn, expectedErrorType, expectedMessage, this.message, options)
+      }
+    } catch (e) {
+      this.fail(e)
+    }
+  }
+
+  /**
+   * Runs an assertion, or its negation, recording the failure if the expectation is soft. Designed for internal use only.
+   * @param assertion - The assertion.
+   * @param negation - The opposite assertion, or a description of the assertion (e.g. `have length (3)`) if there is
+   * none: the negation then passes if the assertion fails, and throws `Expected (actual) not to <description>` otherwise.
+   * An invalid operand (e.g. a number for a string assertion) still fails the negation.
+   * @param details - (Optional) `expected` and `operator` (the name of the assertion) of the error thrown by a
+   * described negation. The operator is prefixed with `not `.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the (negated) assertion fails.
+   * @private
+   */
+  private check(assertion: () => void, negation: (() => void) | string, details: AssertionErrorDetails = {}): void {
+    try {
+      this.verify(assertion, negation, details)
+    } catch (e) {
+      this.fail(e)
+    }
+  }
+
+  /**
+   * Checks that a negated `toThrow` or `toReject` has no arguments: the negation fails on any error, so an expected
+   * error type or message would be silently ignored. Designed for internal use only.
+   * @param matcher - The name of the matcher.
+   * @param expectedErrorType - The expected error type.
+   * @param expectedMessage - The expected message.
+   * @param options - The options.
+   * @returns {void} - This method does not return a value.
+   * @throws Error - If the expectation is negated and an argument is provided.
+   * @private
+   */
+  private checkNoArguments(matcher: string, expectedErrorType: unknown, expectedMessage: unknown, options: object): void {
+    if (this.negated && (expectedErrorType !== undefined || expectedMessage !== undefined || Object.keys(options).length > 0)) {
+      throw new Error(`expect(...).not.${matcher}() accepts no arguments: the negation fails on any error`)
+    }
+  }
+
+  /**
+   * Throws the failure of a matcher, or records it if the expectation is soft. Designed for internal use only.
+   * @param e - The thrown value.
+   * @returns {void} - This method does not return a value.
+   * @throws The thrown value, unless it is an `AssertionError` of a soft expectation.
+   * @private
+   */
+  private fail(e: unknown): void {
+    if (!this.onFailure || !(e instanceof AssertionError)) {
+      throw e
+    }
+    this.onFailure(e)
+  }
+
+  /**
+   * Runs an assertion, or its negation, see `check`. Designed for internal use only.
+   * @param assertion - The assertion.
+   * @param negation - The opposite assertion, or a description of the assertion.
+   * @param details - `expected` and `operator` of the error thrown by a described negation.
+   * @returns {void} - This method does not return a value.
+   * @throws AssertionError - If the (negated) assertion fails.
+   * @private
+   */
+  private verify(assertion: () => void, negation: (() => void) | string, details: AssertionErrorDetails): void {
+    if (!this.negated) {
+      assertion()
+      return
+    }
+    if (typeof negation === "function") {
+      negation()
+      return
+    }
+    try {
+      assertion()
+    } catch (e) {
+      if (e instanceof AssertionError && String(e.operator).indexOf("invalid ") !== 0) {
+        return
+      }
+      throw e
+    }
+    const PREFIX = this.message ? `${this.message}: ` : ""
+    throw new AssertionError(`${PREFIX}Expected (${Assert.safeStringify(this.actual)}) not to ${negation}`,
+      { ...details, actual: this.actual, operator: `not ${details.operator}`, userMessage: this.message })
+  }
+}
+
+/**
+ * Fluent entry point to the assertions: `expect(actual).toEqual(expected)` is the same as
+ * `Assert.equals(actual, expected)`, with the same message and `AssertionError` details. See `Expectation`.
+ * @param actual - The value to check.
+ * @param message - (Optional) Message to prefix in case of failure, as the `message` parameter of the `Assert` methods.
+ * @returns The expectation, with the matchers and `.not`.
+ * @example
+ * ```ts
+ * expect(range.getValues(), "Report").toHaveDimensions(10, 3)
+ * expect(sheetNames).toHaveSameMembers(["Data", "Summary"])
+ * expect(sheetNames).not.toContain("Temp")
+ * await expect(fetchData("bad-url")).toReject(Error, "Not found")
+ * ```
+ */
+function expect<T>(actual: T, message: string = ""): Expectation<T> {
+  return new Expectation(actual, message)
+}
+// #endregion Expectation
+
+
+// #region TestRunner
+/**
+ * Outcome of a test case executed via `TestRunner.exec` (or its variants):
+ * - `passed`: The test function completed without throwing.
+ * - `failed`: The test function threw an `AssertionError`.
+ * - `errored`: The test function threw any other value (unexpected error).
+ * - `skipped`: The test function was not executed, see `TestRunner.skip` and `TestRunner.only`.
+ * - `todo`: The test case is planned but not implemented yet, see `TestRunner.todo`.
+ */
+type TestStatus = "passed" | "failed" | "errored" | "skipped" | "todo"
+
+/** Options to configure a `TestRunner` instance. */
+interface TestRunnerOptions {
+  /** If true, only test cases registered with `TestRunner.only` are executed, the other ones are
+   * recorded as `skipped` (default: `false`). Focus mode is also enabled automatically by the first
+   * call to `TestRunner.only`, but only for the test cases executed after it. */
+  only?: boolean
+  /** If true, test cases registered with `TestRunner.only` are not executed and are recorded as `failed`,
+   * so a focused test case left in the code fails the run (default: `true` if the `CI` environment
+   * variable is set, as in most CI services, `false` otherwise). */
+  forbidOnly?: boolean
+  /** Default time budget of each test function in milliseconds, without its hooks (default: `0`, no budget).
+   * An asynchronous test function is abandoned (no longer awaited) once its budget expires: its pending work keeps
+   * running, but its `afterEach` hooks are executed and the run continues. It can be overridden per test case,
+   * see `TestRunner.exec`. */
+  timeout?: number
+  /** Time budget of the whole run in milliseconds, from the runner construction to `TestRunner.end`
+   * (default: `0`, no budget). Useful to detect a test run getting close to the Office Scripts execution time limit. */
+  budget?: number
+  /** What to do when a time budget is exceeded (default: `fail`):
+   * - `fail`: The test case is recorded as `failed` (an asynchronous test case is not awaited anymore). For the
+   *   whole run budget, a result named `Run time budget` is recorded as `failed`.
+   * - `warn`: The result keeps its status and a warning is added to the summary. */
+  onBudgetExceeded?: "fail" | "warn"
+  /** Reporters receiving the events of the run, in the given order (default: a `ConsoleReporter` with
+   * the verbosity of the runner). Include a `ConsoleReporter` to keep the console output. */
+  reporters?: TestReporter[]
+}
+
+/**
+ * Plain representation of the error thrown by a test case, so results can be
+ * inspected, printed or serialized without keeping a reference to the original error.
+ */
+interface TestErrorInfo {
+  /** Name of the error, e.g. `AssertionError`, `TypeError`, or `unknown` for non-Error thrown values. */
+  name: string
+  /** Error message, or the stringified thrown value for non-Error thrown values. */
+  message: string
+  /** Stack trace, if available. */
+  stack?: string
+  /** String representation of the actual value, if provided by the error (`actual` property). */
+  actual?: string
+  /** String representation of the expected value, if provided by the error (`expected` property). */
+  expected?: string
+  /** Name of the failed assertion, if provided by the error (`operator` property), e.g. `equals`. */
+  operator?: string
+  /** Message provided by the user to the assertion, if provided by the error (`userMessage` property). */
+  userMessage?: string
+}
+
+/** Function of a test case or a lifecycle hook. It may be asynchronous, i.e. return a Promise, in which
+ * case `TestRunner` awaits it before executing the next step. */
+type TestFunction = (() => void) | (() => Promise<void>)
+
+/** A value, or a Promise of it for asynchronous operations. */
+type MaybePromise<T> = T | Promise<T>
+
+/** Name of a lifecycle hook, see `TestRunner.beforeAll`, `TestRunner.afterAll`, `TestRunner.beforeEach` and `TestRunner.afterEach`. */
+type TestHookName = "beforeAll" | "afterAll" | "beforeEach" | "afterEach"
+
+/** Result recorded by `TestRunner.exec` for each test case. */
+interface TestResult {
+  /** Name of the test case, as passed to `TestRunner.exec`. */
+  name: string
+  /** Names of the enclosing suites, from the outermost to the innermost. Empty if executed outside a suite. */
+  suite: string[]
+  /** Outcome of the test case. */
+  status: TestStatus
+  /** Failure message, empty string if the test passed. */
+  message: string
+  /** Details of the thrown error, only present if the test did not pass. */
+  error?: TestErrorInfo
+  /** Execution time in milliseconds, including the `beforeEach` and `afterEach` hooks. `0` if not executed. */
+  duration: number
+  /** Warning about the test case, e.g. time budget exceeded with the `warn` option. */
+  warning?: string
+  /** Lifecycle hook that threw the error, only present if the test did not pass because of a hook failure.
+   * Hook failures are always recorded with status `errored`, even if the hook threw an `AssertionError`. */
+  hook?: TestHookName
+}
+
+/** Results of a suite defined via `TestRunner.suite`, including its nested suites. */
+interface SuiteResult {
+  /** Name of the suite, as passed to `TestRunner.suite`. */
+  name: string
+  /** Names of the enclosing suites and of the suite itself, from the outermost to the innermost. */
+  path: string[]
+  /** Results of the test cases executed directly within the suite, in execution order. */
+  results: TestResult[]
+  /** Nested suites, in execution order. */
+  suites: SuiteResult[]
+  /** Execution time in milliseconds, including nested suites and hooks. */
+  duration: number
+}
+
+/** Lifecycle hooks registered in a scope (the runner itself or a suite). Designed for internal use only. */
+interface TestHookScope {
+  beforeAll: TestFunction[]
+  afterAll: TestFunction[]
+  beforeEach: TestFunction[]
+  afterEach: TestFunction[]
+  /** Whether at least one test case was executed in the scope, so `afterAll` hooks need to be executed. */
+  started: boolean
+  /** Number of `beforeAll` hooks already executed, so hooks are executed only once. */
+  beforeAllDone: number
+  /** Failure of a `beforeAll` hook, attributed to all test cases of the scope. */
+  beforeAllFailure?: TestFailure
+}
+
+/** Error thrown while executing a test case or a hook. Designed for internal use only. */
+interface TestFailure {
+  /** The thrown value. */
+  error: unknown
+  /** The hook that threw, undefined if thrown by the test function itself. */
+  hook?: TestHookName
+}
+
+/** Outcome of a test case executed with its hooks. Designed for internal use only. */
+interface TestOutcome {
+  /** The first failure, undefined if the test passed. */
+  failure?: TestFailure
+  /** Execution time of the test function alone in milliseconds, checked against the time budget. */
+  duration: number
+}
+
+/** Summary of all test cases executed by a `TestRunner` instance. */
+interface TestRunSummary {
+  /** Total number of executed test cases. */
+  total: number
+  /** Number of test cases with status `passed`. */
+  passed: number
+  /** Number of test cases with status `failed`. */
+  failed: number
+  /** Number of test cases with status `errored`. */
+  errored: number
+  /** Number of test cases with status `skipped`. */
+  skipped: number
+  /** Number of test cases with status `todo`. */
+  todo: number
+  /** Results of the test cases with status `failed` or `errored`, in execution order. */
+  failures: TestResult[]
+  /** Results of all test cases, in execution order. */
+  results: TestResult[]
+  /** Results grouped by top-level suites. Test cases executed outside a suite are only listed in `results`. */
+  suites: SuiteResult[]
+  /** Execution time in milliseconds, from the runner construction to `TestRunner.end` (or to now, if not ended). */
+  duration: number
+  /** Warnings of the run, e.g. time budgets exceeded with the `warn` option. */
+  warnings: string[]
+}
+
+/**
+ * Contract of a reporter: receives the events emitted by a `TestRunner` and produces the output of the run.
+ * All methods are optional, so a reporter only implements the events it needs. The `indent` argument is the
+ * indentation level (`TestRunner.VERBOSITY` scale) derived by the runner from the suite nesting.
+ * Results not related to the execution of a test case (e.g. `afterAll` hook failures) don't emit test events,
+ * they are listed in the suite results and in the summary.
+ * @example
+ * ```ts
+ * class FailureCounter implements TestReporter {
+ *   public failures = 0
+ *   public onTestFail(result: TestResult): void { this.failures++ }
+ * }
+ * const counter = new FailureCounter()
+ * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER,
+ *   { reporters: [new ConsoleReporter(TestRunner.VERBOSITY.HEADER), counter] })
+ * ```
+ * @see {@link ConsoleReporter} for the default reporter.
+ */
+interface TestReporter {
+  /** Called once, before the first event of the run. */
+  onRunStart?(): void
+  /** Called by `TestRunner.title`, for free-form titles. */
+  onTitle?(msg: string, indent: number): void
+  /** Called before the suite function is executed. The suite result is completed once the suite ends. */
+  onSuiteStart?(suite: SuiteResult, indent: number): void
+  /** Called once the suite (including its `afterAll` hooks) is completed. */
+  onSuiteEnd?(suite: SuiteResult, indent: number): void
+  /** Called before the test case (including its hooks) is executed. `suite` is the path of the enclosing suites. */
+  onTestStart?(name: string, suite: string[], indent: number): void
+  /** Called once a test case is recorded as `passed`. */
+  onTestPass?(result: TestResult, indent: number): void
+  /** Called once a test case is recorded as `failed` or `errored`. */
+  onTestFail?(result: TestResult, indent: number): void
+  /** Called once a test case is recorded as `skipped` or `todo`, without `onTestStart`. */
+  onTestSkip?(result: TestResult, indent: number): void
+  /** Called by `TestRunner.end` and `TestRunner.endAsync`, with the summary of the run. */
+  onRunEnd?(summary: TestRunSummary): void
+  /** Called by `TestRunner.printSummary`, to output the summary on request. */
+  onSummary?(summary: TestRunSummary): void
+}
+
+/**
+ * A utility class for managing and running test cases with controlled console output.
+ * `TestRunner` supports configurable verbosity levels and allows structured logging
+ * with indentation for better test output organization. It is primarily designed for
+ * test cases using assertion methods (e.g., `Assert.equals`, `Assert.throws`).
+ * Verbosity can be set via the `TestRunner.VERBOSITY` in the constructor: constant object (enum pattern)
+ * - `OFF` (0): No output
+ * - `HEADER` (1): High-level section headers only
+ * - `SECTION` (2): First level nested title
+ * - `SUBSECTION` (3): Second level nested title
+ * 
+ * Verbosity level is incremental, i.e. allows all logging events with indentation level that is
+ * lower or equal than `TestRunner.VERBOSITY`.
+ *
+ * @example
+ * ```ts
+ * const runner = new TestRunner(TestRunner.VERBOSITY.SECTION)
+ * title("Start Testing") // default indentation is 1 (HEADER)
+ * runner.exec("Simple Length Test", () => { // default indentation is 2 (SECTION)
+ *   Assert.equals("test".length, 4) // test passed
+ * })
+ * function sum(a: number, b: number): number {return a + b}
+ * const a = 1, b = 2
+ * runner.exec("Sum Test", () => {
+ *   Assert.equals(sum(a, b), 3) // test passed
+ * })
+ * title("End Testing")
+ *
+ * // Output will look like:
+ * // * Start Testing *
+ * // ** START: Simple Length Test **
+ * // ** END: Simple Length Test **
+ * // ** START: Sum Test **
+ * // ** END: Sum Test **
+ * // * End Testing *
+ * ```
+ *
+ * @remarks 
+ * - Test functions are expected to use `Assert` methods internally. If an assertion fails,
+ * the error will be caught and reported with context.
+ * - For a better organization, consider to put all test cases withing a single `TestCase` class
+ * where each test case scenario is defined with a static method.
+ * - Related test cases can be grouped with `TestRunner.suite`, the runner then derives the indentation
+ * level from the suite nesting, so no indentation level needs to be passed to `TestRunner.exec`.
+ * - The output is produced by reporters (see `TestReporter`), the runner only emits events. By default
+ * a `ConsoleReporter` prints the titles described above.
+ */
+class TestRunner {
+  private static readonly AFTER_ALL_NAME = "afterAll hook" // Name of the result recording an afterAll hook failure
+  private static readonly BUDGET_NAME = "Run time budget" // Name of the result recording the run budget failure
+
+  /** Separator of suite names in a test path, e.g. `Math > Division > By zero`.*/
+  public static readonly SUITE_SEPARATOR = " > "
+
+  /**Allowed verbosity levels, to control the output of `TestRunner.title` method.*/
+  public static readonly VERBOSITY = {
+    OFF: 0,
+    HEADER: 1,
+    SECTION: 2,
+    SUBSECTION: 3
+  } as const;
+
+  // To facilitate the label associated to the verbosity value.
+  private static readonly VERBOSITY_LABELS = Object.entries(TestRunner.VERBOSITY).reduce((acc, [key, value]) => {
+    acc[value] = key;
+    return acc;
+  }, {} as Record<number, string>)
+
+  // Default verbosity level to initialize the TestRunner, if not specified
+  private static readonly DEFAULT_VERBOSITY = TestRunner.VERBOSITY.HEADER
+
+  /** The verbosity level of the TestRunner instance.*/
+  private readonly _verbosity: typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY]
+
+  /** Options of the TestRunner instance, with defaults applied.*/
+  private readonly _options: Required<TestRunnerOptions>
+
+  /** Whether `TestRunner.only` was called, which enables focus mode for the next test cases.*/
+  private _focused = false
+
+  /** Start time of the run (runner construction) in milliseconds.*/
+  private readonly _startTime = Date.now()
+
+  /** End time of the run (last call to `TestRunner.end`) in milliseconds, undefined if not ended.*/
+  private _endTime: number = undefined
+
+  /** Warnings of the run not related to a single test case.*/
+  private readonly _warnings: string[] = []
+
+  /** Whether the run start event was emitted to the reporters.*/
+  private _started = false
+
+  /** Results of the test cases executed so far, in execution order.*/
+  private readonly _results: TestResult[] = []
+
+  /** Top-level suites executed so far, in execution order.*/
+  private readonly _suites: SuiteResult[] = []
+
+  /** Suites currently being executed, from the outermost to the innermost.*/
+  private readonly _suiteStack: SuiteResult[] = []
+
+  /** Hooks of the runner (first element) and of the suites currently being executed, from the outermost to the innermost.*/
+  private readonly _hookStack: TestHookScope[] = [TestRunner.newHookScope()]
+
+  /**Constructs a `TestRunner` with the specified verbosity level.
+   * @param verbosity - One of the values from `TestRunner.VERBOSITY` (default: `HEADER(1)`)
+   * @param options - (Optional) Additional options, see `TestRunnerOptions`.
+   */
+  public constructor(verbosity: typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY] = TestRunner.DEFAULT_VERBOSITY,
+    options: TestRunnerOptions = {}) {
+    this._verbosity = verbosity
+    this._options = {
+      only: options.only === undefined ? false : options.only,
+      forbidOnly: options.forbidOnly === undefined ? TestRunner.isCI() : options.forbidOnly,
+      timeout: options.timeout === undefined ? 0 : options.timeout,
+      budget: options.budget === undefined ? 0 : options.budget,
+      onBudgetExceeded: options.onBudgetExceeded === undefined ? "fail" : options.onBudgetExceeded,
+      reporters: options.reporters === undefined ? [new ConsoleReporter(verbosity)] : options.reporters.slice()
+    }
+  }
+
+  /** Returns the current verbosity level. 
+   * @returns {number} - The current verbosity level as defined in `TestRunner.VERBOSITY`.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
+   * console.log(runner.getVerbosity()) // Outputs: 1
+   * ```
+   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
+   * @see {@link TestRunner.getVerbosityLabel} for the string label of the verbosity level.
+  */
+  public getVerbosity(): typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY] {
+    return this._verbosity
+  }
+
+  /** Returns the corresonding string label for the verbosity level. 
+   * This is useful for logging or debugging purposes.
+   * @returns {string} - The label corresponding to the current verbosity level.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
+   * console.log(runner.getVerbosityLabel()) // Outputs: "HEADER"
+   * ```
+   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
+   * @see {@link TestRunner.getVerbosity} for the numeric verbosity level.
+  */
+  public getVerbosityLabel() {
+    return TestRunner.VERBOSITY_LABELS[this._verbosity]
+  }
+
+  /**
+   * Conditionally prints a title message based on the configured verbosity.
+   * The title is prefixed and suffixed with `*` characters for visual structure.
+   * The number of `*` will depend on the indentation level, for `2` it shows
+   * `**` as prefix and suffix. The title is emitted to the reporters (`TestReporter.onTitle`),
+   * the output described here is the one of the default `ConsoleReporter`.
+   * @param msg - The message to display
+   * @param indent - Indentation level (default: `1(HEADER)`). The indentation level is indicated
+   *                with the number of `*` characters used as prefix and suffix to the title.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
+   * runner.title("My Test Section", 2) // Outputs: "** My Test Section **"
+   * ```
+   * @remarks This method is used to create structured output for test sections or titles.
+   *          It helps in organizing test output visually, especially when running multiple tests.
+   *          The indentation level allows for hierarchical organization of test cases.
+   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
+   * @see {@link TestRunner.getVerbosity} for the current verbosity level.
+   * @see {@link TestRunner.getVerbosityLabel} for the string label of the verbosity level.
+   */
+  public title(msg: string, indent: number = 1): void {
+    this.emit("onTitle", msg, indent)
+  }
+
+  /** Executes a test case with a title and records its result.
+   * This method logs the start and end of the test case with titles (using `TestRunner.title` method)
+   * if the verbosity level allows it.
+   * It executes the provided function which should contain assertions.
+   * If the function throws, the error is caught and recorded, so the remaining test cases
+   * are still executed. An `AssertionError` is recorded as `failed`, any other thrown value
+   * as `errored`. Use `TestRunner.getResults` or `TestRunner.getSummary` to inspect the outcome.
+   * If the function (or a lifecycle hook) returns a Promise, the method returns a Promise resolved once
+   * the test case and its hooks are completed, and the rejection value is recorded as the error. Await it,
+   * so the end title is printed and the result is recorded before the next test case starts.
+   * See detailed JSDoc in class documentation 
+   * @param name - The name of the test case.
+   * @param fn - The function containing the test logic. It should contain assertions using `Assert` methods.
+   *             It can be an async function.
+   * @param indent - (Optional) Indentation level for the title. The indentation level is indicated
+   *                 with the number of suffix `*`. By default it is derived from the suite nesting:
+   *                 `2(SECTION)` outside a suite, otherwise one level deeper than the enclosing suite
+   *                 title (up to `3(SUBSECTION)`).
+   * @param timeout - (Optional) Time budget of the test case in milliseconds, overriding the runner `timeout`
+   *                  option. `0` means no budget. See `TestRunnerOptions` for what happens if it is exceeded.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void | Promise<void>} - A Promise only if the test function or a hook is asynchronous.
+   * @remarks Always pass a function reference using `() => ....`
+   *          If you pass a direct function call, the code will execute before
+   *          and not at indicated place it should be executed inside this method and it may produce unexpected results.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.exec("My Test", () => {
+   *   Assert.equals(1 + 1, 2)
+   * })
+   * runner.exec("Failing Test", () => Assert.equals(1 + 1, 3)) // Recorded as failed, execution continues
+   * console.log(runner.getSummary().failed) // Outputs: 1
+   * await runner.exec("Async Test", async () => {
+   *   Assert.equals(await Promise.resolve(2), 2)
+   * })
+   * runner.exec("Slow Test", () => TestCase.slow(), undefined, 500) // Fails if it takes more than 500 ms
+   * ```
+   * @see {@link TestRunner.getSummary} for the summary of the executed test cases.
+  */
+  public exec(name: string, fn: TestFunction, indent?: number, timeout?: number): void | Promise<void> {
+    if (typeof fn !== "function") { // Also in focus mode, where the test case is skipped
+      throw new AssertionError("TestRunner.exec() expects a function as input.")
+    }
+    if (this._options.only || this._focused) {
+      this.skip(name, fn, indent)
+      return
+    }
+    return this.execute("exec", name, fn, indent, timeout)
+  }
+
+  /** Executes a focused test case. Once called, the runner is in focus mode: the test cases
+   * registered afterwards with `TestRunner.exec` are recorded as `skipped` without being executed.
+   * **Focus mode is order-dependent**: test cases are executed as soon as they are registered, so the test
+   * cases registered before the first focused one have already been executed and are not skipped.
+   * To skip them too, construct the runner with the `only` option. A focused test case is meant for debugging only, so if the runner was constructed
+   * with the `forbidOnly` option (the default in CI), it is not executed and it is recorded as `failed`.
+   * @param name - The name of the test case.
+   * @param fn - The function containing the test logic. It can be an async function.
+   * @param indent - (Optional) Indentation level for the title, see `TestRunner.exec`.
+   * @param timeout - (Optional) Time budget of the test case in milliseconds, see `TestRunner.exec`.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void | Promise<void>} - A Promise only if the test function or a hook is asynchronous.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER, { only: true })
+   * runner.exec("Not executed", () => Assert.isTrue(true)) // Recorded as skipped
+   * runner.only("Debugging this one", () => Assert.equals(1 + 1, 2))
+   * ```
+   * @see {@link TestRunnerOptions} for the `only` and `forbidOnly` options.
+   */
+  public only(name: string, fn: TestFunction, indent?: number, timeout?: number): void | Promise<void> {
+    if (typeof fn !== "function") { // Also with forbidOnly, where the test function is not executed
+      throw new AssertionError("TestRunner.only() expects a function as input.")
+    }
+    if (this._options.forbidOnly) {
+      return this.execute("only", name, () => {
+        throw new AssertionError(`TestRunner.only() is not allowed when the 'forbidOnly' option is set (e.g. in CI): '${name}'`)
+      }, indent, timeout)
+    }
+    this._focused = true
+    return this.execute("only", name, fn, indent, timeout)
+  }
+
+  /** Skips a test case: the test function and the hooks are not executed and the test case is
+   * recorded as `skipped`. Use it to temporarily disable a test case instead of commenting it out,
+   * so it still shows up in the summary.
+   * @param name - The name of the test case.
+   * @param fn - (Optional) The function containing the test logic, it is not executed.
+   * @param indent - (Optional) Indentation level for the title, see `TestRunner.exec`.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * runner.skip("Flaky test", () => Assert.equals(flaky(), 1))
+   * ```
+   * @see {@link TestRunner.todo} for test cases not implemented yet.
+   */
+  public skip(name: string, fn?: TestFunction, indent?: number): void {
+    this.emit("onTestSkip", this.record(name, undefined, { status: "skipped" }), this.testLevel(indent))
+  }
+
+  /** Registers a test case that is planned but not implemented yet: it is recorded as `todo` and
+   * any provided function is not executed.
+   * @param name - The name of the test case.
+   * @param fn - (Optional) The draft of the test logic, it is not executed.
+   * @param indent - (Optional) Indentation level for the title, see `TestRunner.exec`.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * runner.todo("Handle empty worksheet")
+   * ```
+   * @see {@link TestRunner.skip} for disabling an implemented test case.
+   */
+  public todo(name: string, fn?: TestFunction, indent?: number): void {
+    this.emit("onTestSkip", this.record(name, undefined, { status: "todo" }), this.testLevel(indent))
+  }
+
+  /** Groups test cases into a named suite. Suites can be nested, the nesting depth is tracked by the
+   * runner and mapped onto the `TestRunner.VERBOSITY` levels: a top-level suite title is printed at
+   * `1(HEADER)` level, and each nested suite (and the test cases it contains) one level deeper, up to
+   * `3(SUBSECTION)`. The suite title uses the same `*` tokens as `TestRunner.title`, and the end title
+   * includes the counts per status of all test cases in the suite, including nested suites.
+   * If the suite function itself throws (outside of `TestRunner.exec`), the error is recorded as a
+   * result named after the suite, in the enclosing suite, so the remaining suites are still executed.
+   * The suite function can be an async function awaiting its test cases, in which case (or if an
+   * `afterAll` hook is asynchronous) the method returns a Promise that needs to be awaited as well.
+   * @param name - The name of the suite.
+   * @param fn - The function defining the suite content, i.e. calls to `TestRunner.exec` or nested `TestRunner.suite`.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void | Promise<void>} - A Promise only if the suite function or an `afterAll` hook is asynchronous.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.SUBSECTION)
+   * runner.suite("Math", () => {
+   *   runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+   *   runner.suite("Division", () => {
+   *     runner.exec("By zero", () => Assert.equals(1 / 0, Infinity))
+   *   })
+   * })
+   * // Output:
+   * // * START Math *
+   * // ** START Sum **
+   * // ** END Sum **
+   * // ** START Division **
+   * // *** START By zero ***
+   * // *** END By zero ***
+   * // ** END Division (1 passed, 0 failed, 0 errored) **
+   * // * END Math (2 passed, 0 failed, 0 errored) *
+   * ```
+   * @see {@link TestRunner.describe} for an alias.
+   * @see {@link TestRunner.getSuites} for the results grouped by suite.
+   */
+  public suite(name: string, fn: TestFunction): void | Promise<void> {
+    if (typeof fn !== "function") {
+      throw new AssertionError("TestRunner.suite() expects a function as input.")
+    }
+    const indent = this.levelOf(TestRunner.VERBOSITY.HEADER)
+    const parent = this._suiteStack[this._suiteStack.length - 1]
+    const suite: SuiteResult = { name, path: parent ? parent.path.concat(name) : [name], results: [], suites: [], duration: 0 }
+    const started = Date.now()
+    if (parent) {
+      parent.suites.push(suite)
+    } else {
+      this._suites.push(suite)
+    }
+    this.emit("onSuiteStart", suite, indent)
+    this._suiteStack.push(suite)
+    this._hookStack.push(TestRunner.newHookScope())
+    const outcome = TestRunner.then(TestRunner.attempt(fn),
+      failure => TestRunner.then(this.runAfterAll(), () => failure))
+    return TestRunner.then(outcome, failure => {
+      this._hookStack.pop()
+      this._suiteStack.pop()
+      suite.duration = Date.now() - started
+      if (failure) {
+        this.record(name, failure)
+      }
+      this.emit("onSuiteEnd", suite, indent)
+    })
+  }
+
+  /** Alias for `TestRunner.suite` method.
+   * @param name - The name of the suite.
+   * @param fn - The function defining the suite content.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void | Promise<void>} - A Promise only if the suite function or an `afterAll` hook is asynchronous.
+   * @see {@link TestRunner.suite} for details.
+   */
+  public describe(name: string, fn: TestFunction): void | Promise<void> {
+    return this.suite(name, fn)
+  }
+
+  /** Registers a hook executed once before the first test case of the current suite (including nested suites),
+   * or before the first test case of the runner if called outside a suite.
+   * If the hook throws, it is not executed again and all test cases of the scope are recorded as `errored`
+   * with the hook error, without being executed.
+   * Register hooks before the test cases they apply to, since test cases are executed immediately.
+   * @param fn - The hook function. It can be an async function.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * runner.suite("Worksheet", () => {
+   *   runner.beforeAll(() => sheet = workbook.addWorksheet("Test"))
+   *   runner.afterAll(() => sheet.delete())
+   *   runner.exec("Name", () => Assert.equals(sheet.getName(), "Test"))
+   * })
+   * ```
+   * @see {@link TestRunner.afterAll} for the teardown counterpart.
+   */
+  public beforeAll(fn: TestFunction): void {
+    this.addHook("beforeAll", fn)
+  }
+
+  /** Registers a hook executed once at the end of the current suite, or by `TestRunner.end` if called
+   * outside a suite. The hook is executed only if at least one test case was executed in the scope,
+   * so it pairs with `TestRunner.beforeAll`. If the hook throws, a result named `afterAll hook` is
+   * recorded with status `errored`.
+   * @param fn - The hook function.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void} - This method does not return a value.
+   * @see {@link TestRunner.beforeAll} for the setup counterpart.
+   */
+  public afterAll(fn: TestFunction): void {
+    this.addHook("afterAll", fn)
+  }
+
+  /** Registers a hook executed before each test case of the current suite (including nested suites),
+   * or before each test case of the runner if called outside a suite. Hooks of the outer scopes are
+   * executed first. If the hook throws, the test function is not executed and the test case is recorded
+   * as `errored` with the hook error. `afterEach` hooks are still executed.
+   * @param fn - The hook function.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * runner.beforeEach(() => sheet.getRange("A1:C3").clear())
+   * runner.exec("Write", () => { ... })
+   * ```
+   * @see {@link TestRunner.afterEach} for the teardown counterpart.
+   */
+  public beforeEach(fn: TestFunction): void {
+    this.addHook("beforeEach", fn)
+  }
+
+  /** Registers a hook executed after each test case of the current suite (including nested suites),
+   * or after each test case of the runner if called outside a suite. Hooks of the inner scopes are
+   * executed first. The hook is always executed, even if the test function or a `beforeEach` hook throws.
+   * If the hook throws and the test case did not fail already, the test case is recorded as `errored`
+   * with the hook error.
+   * @param fn - The hook function.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void} - This method does not return a value.
+   * @see {@link TestRunner.beforeEach} for the setup counterpart.
+   */
+  public afterEach(fn: TestFunction): void {
+    this.addHook("afterEach", fn)
+  }
+
+  /** Ends the run: executes the `afterAll` hooks registered outside any suite and returns the summary.
+   * It is safe to call it more than once, the `afterAll` hooks are executed only if test cases were
+   * executed since the previous call. Use `TestRunner.endAsync` if any of these hooks is asynchronous.
+   * It also ends the run time, checks the `budget` option and emits the run end event to the reporters.
+   * @returns {TestRunSummary} - The summary of the executed test cases.
+   * @throws AssertionError - If an `afterAll` hook registered outside any suite is asynchronous.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.afterAll(() => console.log("Cleanup"))
+   * runner.exec("My Test", () => Assert.isTrue(true))
+   * const summary = runner.end() // Outputs: "Cleanup"
+   * ```
+   * @see {@link TestRunner.getSummary} for the summary data.
+   */
+  public end(): TestRunSummary {
+    if (TestRunner.isThenable(this.runAfterAll())) {
+      throw new AssertionError("TestRunner.end() cannot wait for asynchronous afterAll hooks, use TestRunner.endAsync() instead.")
+    }
+    this.finish()
+    return this.getSummary()
+  }
+
+  /** Asynchronous version of `TestRunner.end`: executes and awaits the `afterAll` hooks registered
+   * outside any suite, then returns the summary.
+   * @returns {Promise<TestRunSummary>} - The summary of the executed test cases.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.afterAll(async () => await cleanup())
+   * await runner.exec("My Test", async () => Assert.isTrue(await check()))
+   * const summary = await runner.endAsync()
+   * ```
+   * @see {@link TestRunner.end} for the synchronous version.
+   */
+  public async endAsync(): Promise<TestRunSummary> {
+    await this.runAfterAll()
+    this.finish()
+    return this.getSummary()
+  }
+
+  /** Returns the results of the test cases executed so far, in execution order.
+   * @returns {TestResult[]} - A copy of the recorded results.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.exec("My Test", () => Assert.isTrue(true))
+   * console.log(runner.getResults()[0].status) // Outputs: "passed"
+   * ```
+   * @see {@link TestRunner.getSummary} for aggregated counts.
+   */
+  public getResults(): TestResult[] {
+    return this._results.slice()
+  }
+
+  /** Returns the results grouped by the top-level suites executed so far, in execution order.
+   * Test cases executed outside a suite are not included, use `TestRunner.getResults` for them.
+   * @returns {SuiteResult[]} - A copy of the list of top-level suites.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.suite("Math", () => runner.exec("Sum", () => Assert.equals(1 + 1, 2)))
+   * console.log(runner.getSuites()[0].results[0].name) // Outputs: "Sum"
+   * ```
+   * @see {@link TestRunner.suite} to define suites.
+   */
+  public getSuites(): SuiteResult[] {
+    return this._suites.slice()
+  }
+
+  /** Returns a summary of the test cases executed so far: counts per status and the list of failures.
+   * Failures include both `failed` (assertion failures) and `errored` (unexpected errors) test cases.
+   * @returns {TestRunSummary} - The summary of the executed test cases.
+   * @example
+   * ```ts
+   * const runner = new TestRunner()
+   * runner.exec("Pass", () => Assert.isTrue(true))
+   * runner.exec("Fail", () => Assert.isTrue(false))
+   * const summary = runner.getSummary()
+   * console.log(`${summary.passed}/${summary.total}`) // Outputs: "1/2"
+   * ```
+   * @see {@link TestRunner.printSummary} to log the summary to the console.
+   */
+  public getSummary(): TestRunSummary {
+    const results = this.getResults()
+    const counts = TestRunner.countByStatus(results)
+    return {
+      total: results.length,
+      passed: counts.passed,
+      failed: counts.failed,
+      errored: counts.errored,
+      skipped: counts.skipped,
+      todo: counts.todo,
+      failures: results.filter(r => r.status === "failed" || r.status === "errored"),
+      results,
+      suites: this.getSuites(),
+      duration: (this._endTime === undefined ? Date.now() : this._endTime) - this._startTime,
+      warnings: results.filter(r => r.warning)
+        .map(r => `${r.suite.concat(r.name).join(TestRunner.SUITE_SEPARATOR)}: ${r.warning}`)
+        .concat(this._warnings)
+    }
+  }
+
+  /** Prints the summary of the executed test cases: the summary is emitted to the reporters
+   * (`TestReporter.onSummary`), the output described here is the one of the default `ConsoleReporter`,
+   * at `HEADER` level: a line with the counts per status, followed by one line per failure with its message.
+   * The failing test case name is prefixed with the names of its enclosing suites separated by ` > `,
+   * and followed by the hook name, if the failure comes from a lifecycle hook. Warnings are printed last.
+   * The run duration is included if the verbosity is at least `SECTION`.
+   * @returns {void} - This method does not return a value.
+   * @example
+   * ```ts
+   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
+   * runner.exec("Fail", () => Assert.equals(1, 2))
+   * runner.printSummary()
+   * // Output:
+   * // * SUMMARY: 0 passed, 1 failed, 0 errored (1 total) *
+   * // * FAILED Fail: [AssertionError] Assertion failed: actual (1 : number) !== expected (2 : number) *
+   * ```
+   * @see {@link TestRunner.getSummary} for the summary data.
+   */
+  public printSummary(): void {
+    this.emit("onSummary", this.getSummary())
+  }
+
+  /** Counts the results per status, e.g. to report the counts of a suite.
+   * @param results - The results to count.
+   * @returns {Record<TestStatus, number>} - The number of results per status.
+   * @example
+   * ```ts
+   * const counts = TestRunner.countByStatus(TestRunner.flattenSuite(runner.getSuites()[0]))
+   * console.log(counts.failed) // Outputs the number of failed test cases of the first suite
+   * ```
+   */
+  public static countByStatus(results: TestResult[]): Record<TestStatus, number> {
+    const counts: Record<TestStatus, number> = { passed: 0, failed: 0, errored: 0, skipped: 0, todo: 0 }
+    for (const r of results) {
+      counts[r.status]++
+    }
+    return counts
+  }
+
+  /** Returns all test case results of a suite, including nested suites, in execution order per suite.
+   * @param suite - The suite.
+   * @returns {TestResult[]} - The results.
+   * @see {@link TestRunner.countByStatus} to count them.
+   */
+  public static flattenSuite(suite: SuiteResult): TestResult[] {
+    return suite.suites.reduce((acc, s) => acc.concat(TestRunner.flattenSuite(s)), suite.results.slice())
+  }
+
+  /** Executes a test case with its hooks, records its result and emits the test events.
+   * @param method - The public method name, for the error message if fn is not a function.
+   * @param name - The name of the test case.
+   * @param fn - The function containing the test logic.
+   * @param indent - (Optional) Indentation level for the title.
+   * @param timeout - (Optional) Time budget of the test case, the runner `timeout` option by default.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {MaybePromise<void>} - A Promise only if the test function or a hook is asynchronous.
+   * @private
+   */
+  private execute(method: string, name: string, fn: TestFunction, indent?: number, timeout?: number): MaybePromise<void> {
+    indent = this.testLevel(indent)
+    const suite = this._suiteStack[this._suiteStack.length - 1]
+    this.emit("onTestStart", name, suite ? suite.path.slice() : [], indent)
+    if (typeof fn !== "function") {
+      throw new AssertionError(`TestRunner.${method}() expects a function as input.`);
+    }
+    if (timeout === undefined) {
+      timeout = this._options.timeout
+    }
+    const started = Date.now()
+    return TestRunner.then(this.runWithHooks(fn, timeout), outcome => {
+      const duration = Date.now() - started
+      let failure = outcome.failure
+      let warning: string = undefined
+      if (timeout > 0 && outcome.duration > timeout && !failure) {
+        const msg = `Test exceeded the time budget of ${timeout} ms (took ${outcome.duration} ms)`
+        if (this._options.onBudgetExceeded === "fail") {
+          failure = { error: new AssertionError(msg) }
+        } else {
+          warning = msg
+        }
+      }
+      const result = this.record(name, failure, { duration, warning })
+      this.emit(result.status === "passed" ? "onTestPass" : "onTestFail", result, indent)
+    })
+  }
+
+  /** Limits the time an asynchronous test function is awaited, if the time budget is exceeded and the
+   * `onBudgetExceeded` option is `fail`: the returned Promise resolves with a timeout failure, and the
+   * pending work of the test function is not awaited anymore. It requires `setTimeout`, otherwise (or for
+   * synchronous test cases) the time budget is checked once the test case is completed.
+   * @param outcome - The outcome of the test function.
+   * @param timeout - The time budget in milliseconds, `0` for no budget.
+   * @returns {MaybePromise<TestFailure>} - The outcome, or the timeout failure.
+   * @private
+   */
+  private withTimeout(outcome: MaybePromise<TestFailure>, timeout: number): MaybePromise<TestFailure> {
+    if (!TestRunner.isThenable(outcome) || !(timeout > 0) || this._options.onBudgetExceeded !== "fail"
+      || typeof setTimeout !== "function") {
+      return outcome
+    }
+    let timer: ReturnType<typeof setTimeout>
+    const expired = new Promise<TestFailure>(resolve => {
+      timer = setTimeout(() => resolve({
+        error: new AssertionError(`Test exceeded the time budget of ${timeout} ms and is no longer awaited`)
+      }), timeout)
+    })
+    return Promise.race([outcome, expired]).then(failure => {
+      clearTimeout(timer)
+      return failure
+    })
+  }
+
+  /** Ends the run time, checks the `budget` option and emits the run end event. If the budget is exceeded,
+   * a result named `Run time budget` is recorded as `failed`, or a warning is added, according to
+   * `onBudgetExceeded`. The budget is checked only once.
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private finish(): void {
+    const checked = this._endTime !== undefined
+    this._endTime = Date.now()
+    const duration = this._endTime - this._startTime
+    const budget = this._options.budget
+    if (!checked && budget > 0 && duration > budget) {
+      const msg = `Test run exceeded the time budget of ${budget} ms (took ${duration} ms)`
+      if (this._options.onBudgetExceeded === "fail") {
+        this.record(TestRunner.BUDGET_NAME, { error: new AssertionError(msg) })
+      } else {
+        this._warnings.push(msg)
+      }
+    }
+    this.emit("onRunEnd", this.getSummary())
+  }
+
+  /** Emits an event to the reporters, in order. The run start event is emitted before the first event.
+   * @param event - The name of the `TestReporter` method.
+   * @param args - The arguments of the event.
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private emit<K extends keyof TestReporter>(event: K, ...args: Parameters<Required<TestReporter>[K]>): void {
+    if (!this._started && event !== "onRunStart") {
+      this._started = true
+      this.emit("onRunStart")
+    }
+    for (const reporter of this._options.reporters) {
+      const handler = reporter[event] as unknown as (...params: unknown[]) => void
+      if (typeof handler === "function") {
+        handler.apply(reporter, args)
+      }
+    }
+  }
+
+  /** Executes a function and returns the thrown value, if any. If the function returns a Promise,
+   * it is awaited and its rejection value is returned.
+   * @param fn - The function to execute.
+   * @param hook - (Optional) The hook the function belongs to, undefined for a test function.
+   * @returns {MaybePromise<TestFailure>} - The failure, or undefined if the function did not throw.
+   * @private
+   */
+  private static attempt(fn: TestFunction, hook?: TestHookName): MaybePromise<TestFailure> {
+    const toFailure = (e: unknown): TestFailure => hook ? { error: e, hook } : { error: e }
+    try {
+      const result = fn()
+      if (TestRunner.isThenable(result)) {
+        return Promise.resolve(result).then(() => undefined as TestFailure, toFailure)
+      }
+      return undefined
+    } catch (e: unknown) {
+      return toFailure(e)
+    }
+  }
+
+  /** Executes the steps in order and returns the first failure. Steps returning a Promise are awaited
+   * before executing the next one, so the result is only a Promise if at least one step is asynchronous.
+   * @param steps - The steps to execute.
+   * @param stopOnFailure - If true, the remaining steps are not executed after a failure.
+   * @returns {MaybePromise<TestFailure>} - The first failure, or undefined if all steps passed.
+   * @private
+   */
+  private static sequence(steps: Array<() => MaybePromise<TestFailure>>, stopOnFailure: boolean,
+    index: number = 0, first: TestFailure = undefined): MaybePromise<TestFailure> {
+    if (index >= steps.length || (stopOnFailure && first)) {
+      return first
+    }
+    return TestRunner.then(steps[index](),
+      failure => TestRunner.sequence(steps, stopOnFailure, index + 1, first || failure))
+  }
+
+  /** Calls next with the value, once it is available if it is a Promise.
+   * @param value - The value or a Promise of it.
+   * @param next - The function to call with the value.
+   * @returns {MaybePromise<R>} - The result of next, a Promise only if value is a Promise or next returns one.
+   * @private
+   */
+  private static then<T, R>(value: MaybePromise<T>, next: (value: T) => MaybePromise<R>): MaybePromise<R> {
+    if (TestRunner.isThenable(value)) {
+      return Promise.resolve(value).then(next)
+    }
+    return next(value as T)
+  }
+
+  /** Returns true if the value is a Promise or a Promise-like object (with a `then` method).
+   * @param value - The value to check.
+   * @returns {boolean} - True if the value is thenable.
+   * @private
+   */
+  private static isThenable(value: unknown): value is PromiseLike<unknown> {
+    return value != null && (typeof value === "object" || typeof value === "function")
+      && typeof (value as { then?: unknown }).then === "function"
+  }
+
+  /** Executes a test function surrounded by the hooks of the runner and of the current suites:
+   * pending `beforeAll` hooks and all `beforeEach` hooks from the outermost scope, then the test
+   * function, then all `afterEach` hooks from the innermost scope. `afterEach` hooks are always
+   * executed, unless a `beforeAll` hook failed. The time budget applies to the test function only: once
+   * it is exceeded, the test function is abandoned and the `afterEach` hooks are executed before returning.
+   * @param fn - The test function.
+   * @param timeout - The time budget of the test function in milliseconds, `0` for no budget.
+   * @returns {MaybePromise<TestOutcome>} - The first failure, and the execution time of the test function alone.
+   * @private
+   */
+  private runWithHooks(fn: TestFunction, timeout: number): MaybePromise<TestOutcome> {
+    const scopes = this._hookStack.slice()
+    const setup = scopes.map(scope => () => this.runBeforeAll(scope))
+    return TestRunner.then(TestRunner.sequence(setup, true), (setupFailure): MaybePromise<TestOutcome> => {
+      if (setupFailure) {
+        return { failure: setupFailure, duration: 0 }
+      }
+      const steps: Array<() => MaybePromise<TestFailure>> = []
+      for (const scope of scopes) {
+        for (const hook of scope.beforeEach) {
+          steps.push(() => TestRunner.attempt(hook, "beforeEach"))
+        }
+      }
+      let duration = 0
+      steps.push(() => {
+        const started = Date.now()
+        return TestRunner.then(this.withTimeout(TestRunner.attempt(fn), timeout), failure => {
+          duration = Date.now() - started
+          return failure
+        })
+      })
+      const teardown: Array<() => MaybePromise<TestFailure>> = []
+      for (let i = scopes.length - 1; i >= 0; i--) {
+        for (const hook of scopes[i].afterEach) {
+          teardown.push(() => TestRunner.attempt(hook, "afterEach"))
+        }
+      }
+      return TestRunner.then(TestRunner.sequence(steps, true), failure =>
+        TestRunner.then(TestRunner.sequence(teardown, false), teardownFailure => ({ failure: failure || teardownFailure, duration })))
+    })
+  }
+
+  /** Executes the pending `beforeAll` hooks of a scope, unless one of them already failed.
+   * @param scope - The hook scope.
+   * @returns {MaybePromise<TestFailure>} - The failure of a `beforeAll` hook of the scope, if any.
+   * @private
+   */
+  private runBeforeAll(scope: TestHookScope): MaybePromise<TestFailure> {
+    scope.started = true
+    if (scope.beforeAllFailure || scope.beforeAllDone >= scope.beforeAll.length) {
+      return scope.beforeAllFailure
+    }
+    const hook = scope.beforeAll[scope.beforeAllDone++]
+    return TestRunner.then(TestRunner.attempt(hook, "beforeAll"), failure => {
+      scope.beforeAllFailure = failure
+      return this.runBeforeAll(scope)
+    })
+  }
+
+  /** Executes the `afterAll` hooks of the innermost scope, if its `beforeAll` hooks were executed,
+   * i.e. at least one test case was executed in the scope. Each failure is recorded as a result named
+   * `afterAll hook`.
+   * @returns {MaybePromise<void>} - A Promise only if at least one hook is asynchronous.
+   * @private
+   */
+  private runAfterAll(): MaybePromise<void> {
+    const scope = this._hookStack[this._hookStack.length - 1]
+    if (!scope.started) {
+      return undefined
+    }
+    const steps = scope.afterAll.map(hook => () => TestRunner.then(TestRunner.attempt(hook, "afterAll"), failure => {
+      if (failure) {
+        this.record(TestRunner.AFTER_ALL_NAME, failure)
+      }
+      return undefined as TestFailure
+    }))
+    return TestRunner.then(TestRunner.sequence(steps, false), () => {
+      scope.started = false
+      scope.beforeAllDone = 0
+      scope.beforeAllFailure = undefined
+    })
+  }
+
+  /** Registers a hook in the innermost scope: the current suite, or the runner if called outside a suite.
+   * @param name - The hook name.
+   * @param fn - The hook function.
+   * @throws AssertionError - If the provided fn is not a function.
+   * @returns {void} - This method does not return a value.
+   * @private
+   */
+  private addHook(name: TestHookName, fn: TestFunction): void {
+    if (typeof fn !== "function") {
+      throw new AssertionError(`TestRunner.${name}() expects a function as input.`)
+    }
+    this._hookStack[this._hookStack.length - 1][name].push(fn)
+  }
+
+  /** Creates an empty hook scope.
+   * @returns {TestHookScope} - The hook scope.
+   * @private
+   */
+  private static newHookScope(): TestHookScope {
+    return { beforeAll: [], afterAll: [], beforeEach: [], afterEach: [], started: false, beforeAllDone: 0 }
+  }
+
+  /** Records the result of a test case, in the list of results and in the current suite (if any).
+   * @param name - The name of the test case.
+   * @param failure - (Optional) The failure, undefined if the test passed. An `AssertionError` thrown by
+   *                  the test function is recorded as `failed`, any other failure as `errored`.
+   * @param details - (Optional) The status for a test case that was not executed (`skipped` or `todo`),
+   *                  the duration and the warning.
+   * @returns {TestResult} - The recorded result.
+   * @private
+   */
+  private record(name: string, failure?: TestFailure,
+    details: { status?: TestStatus, duration?: number, warning?: string } = {}): TestResult {
+    const suite = this._suiteStack[this._suiteStack.length - 1]
+    let status: TestStatus = details.status === undefined ? "passed" : details.status
+    if (failure) {
+      status = failure.error instanceof AssertionError && !failure.hook ? "failed" : "errored"
+    }
+    const error = failure ? TestRunner.toErrorInfo(failure.error) : undefined
+    const result: TestResult = {
+      name,
+      suite: suite ? suite.path.slice() : [],
+      status,
+      message: error ? error.message : "",
+      duration: details.duration === undefined ? 0 : details.duration
+    }
+    if (error) {
+      result.error = error
+    }
+    if (details.warning) {
+      result.warning = details.warning
+    }
+    if (failure && failure.hook) {
+      result.hook = failure.hook
+    }
+    this._results.push(result)
+    if (suite) {
+      suite.results.push(result)
+    }
+    return result
+  }
+
+  /** Returns the indentation level for a test case title: the given one, or by default `SECTION`
+   * outside a suite, otherwise one level deeper than the enclosing suite title.
+   * @param indent - (Optional) The indentation level provided by the user.
+   * @returns {number} - The indentation level.
+   * @private
+   */
+  private testLevel(indent?: number): number {
+    if (indent !== undefined) {
+      return indent
+    }
+    return this._suiteStack.length > 0 ? this.levelOf(TestRunner.VERBOSITY.HEADER) : TestRunner.VERBOSITY.SECTION
+  }
+
+  /** Returns the indentation level for a title, given its level outside any suite, increased by
+   * the current suite nesting depth and limited to `SUBSECTION`.
+   * @param base - The level outside any suite.
+   * @returns {number} - The indentation level.
+   * @private
+   */
+  private levelOf(base: number): number {
+    return Math.min(base + this._suiteStack.length, TestRunner.VERBOSITY.SUBSECTION)
+  }
+
+  /** Returns true if running in a CI service, i.e. the `CI` environment variable is set (Node.js only).
+   * In Office Scripts there are no environment variables, so it returns false.
+   * @returns {boolean} - True if running in CI.
+   * @private
+   */
+  private static isCI(): boolean {
+    if (typeof globalThis === "undefined") {
+      return false
+    }
+    const process = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process
+    const ci = process && process.env ? process.env.CI : undefined
+    return ci !== undefined && ci !== "" && ci !== "0" && ci.toLowerCase() !== "false"
+  }
+
+  /** Returns a string representation of a value, as JSON if possible, e.g. `"text"`, `[1,2]` or `undefined`.
+   * @param value - The value.
+   * @returns {string} - The string representation, or `[unprintable value]`.
+   * @private
+   */
+  private static stringify(value: unknown): string {
+    try {
+      const json = typeof value === "function" || typeof value === "symbol" ? undefined : JSON.stringify(value)
+      return json === undefined ? String(value) : json
+    } catch {
+      try {
+        return String(value)
+      } catch {
+        return "[unprintable value]"
+      }
+    }
+  }
+
+  /** Converts a thrown value into a plain `TestErrorInfo` object.
+   * @param e - The thrown value.
+   * @returns {TestErrorInfo} - The error information.
+   * @private
+   */
+  private static toErrorInfo(e: unknown): TestErrorInfo {
+    if (e instanceof Error) {
+      const info: TestErrorInfo = { name: e.name, message: e.message, stack: e.stack }
+      const details = e as Error & AssertionErrorDetails
+      if ("actual" in details) {
+        info.actual = TestRunner.stringify(details.actual)
+      }
+      if ("expected" in details) {
+        info.expected = TestRunner.stringify(details.expected)
+      }
+      if (typeof details.operator === "string") {
+        info.operator = details.operator
+      }
+      if (typeof details.userMessage === "string") {
+        info.userMessage = details.userMessage
+      }
+      return info
+    }
+    let message: string
+    try {
+      message = String(e)
+    } catch {
+      message = "[unprintable value]"
+    }
+    return { name: "unknown", message }
+  }
+}
+
+// #endregion TestRunner
+
+// #region ConsoleReporter
+/**
+ * Default reporter of `TestRunner`: prints the events as titles with `*` tokens via `console.log`.
+ * The number of `*` used as prefix and suffix is the indentation level, and a title is only printed if its
+ * indentation level is lower or equal than the verbosity of the reporter (see `TestRunner.VERBOSITY`).
+ * Durations are printed only if the verbosity is at least `SECTION`.
+ * @example
+ * ```ts
+ * const runner = new TestRunner(TestRunner.VERBOSITY.SECTION) // Uses a ConsoleReporter with SECTION verbosity
+ * runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ * // Output:
+ * // ** START Sum **
+ * // ** END Sum (0 ms) **
+ * ```
+ * @see {@link TestReporter} for the events.
+ */
+class ConsoleReporter implements TestReporter {
+  private static readonly START = "START" as const  // Prefix for start of a test case
+  private static readonly END = "END" as const      // Prefix for end of a test case
+  private static readonly SUMMARY = "SUMMARY" as const // Prefix for the summary line
+  private static readonly WARNING = "WARNING" as const // Prefix for a warning
+  private static readonly HEADER_TK = "*"           // Token for title lines
+  private static readonly SKIP_PREFIX: Record<TestStatus, string> = {
+    passed: "", failed: "", errored: "", skipped: "SKIPPED", todo: "TODO"
+  }
+
+  /** The verbosity level of the reporter.*/
+  private readonly _verbosity: number
+
+  /**Constructs a `ConsoleReporter` with the specified verbosity level.
+   * @param verbosity - One of the values from `TestRunner.VERBOSITY` (default: `HEADER(1)`)
+   */
+  public constructor(verbosity: typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY] = TestRunner.VERBOSITY.HEADER) {
+    this._verbosity = verbosity
+  }
+
+  /** Prints a title if its indentation level is allowed by the verbosity, e.g. `** title **` for `indent=2`.
+   * @param msg - The message to display.
+   * @param indent - The indentation level.
+   * @returns {void} - This method does not return a value.
+   */
+  public onTitle(msg: string, indent: number): void {
+    if (indent <= this._verbosity) {
+      const TOKEN = ConsoleReporter.HEADER_TK.repeat(indent);
+      console.log(`${TOKEN} ${msg} ${TOKEN}`)
+    }
+  }
+
+  /** Prints the start title of the suite, e.g. `* START Math *`. */
+  public onSuiteStart(suite: SuiteResult, indent: number): void {
+    this.onTitle(`${ConsoleReporter.START} ${suite.name}`, indent)
+  }
+
+  /** Prints the end title of the suite with the counts per status of all its test cases, e.g.
+   * `* END Math (2 passed, 0 failed, 0 errored, 3 ms) *`. */
+  public onSuiteEnd(suite: SuiteResult, indent: number): void {
+    const counts = TestRunner.countByStatus(TestRunner.flattenSuite(suite))
+    this.onTitle(`${ConsoleReporter.END} ${suite.name} (${ConsoleReporter.formatCounts(counts)}`
+      + `${this.formatDuration(suite.duration, ", ")})`, indent)
+  }
+
+  /** Prints the start title of the test case, e.g. `** START Sum **`. */
+  public onTestStart(name: string, suite: string[], indent: number): void {
+    this.onTitle(`${ConsoleReporter.START} ${name}`, indent)
+  }
+
+  /** Prints the end title of the test case, e.g. `** END Sum (1 ms) **`. */
+  public onTestPass(result: TestResult, indent: number): void {
+    this.onTitle(`${ConsoleReporter.END} ${result.name}${this.formatDuration(result.duration, " (", ")")}`, indent)
+  }
+
+  /** Prints the end title of the test case, as for a passed test case. The failure is printed by the summary. */
+  public onTestFail(result: TestResult, indent: number): void {
+    this.onTestPass(result, indent)
+  }
+
+  /** Prints the status and the name of the test case, e.g. `** SKIPPED Flaky test **`. */
+  public onTestSkip(result: TestResult, indent: number): void {
+    this.onTitle(`${ConsoleReporter.SKIP_PREFIX[result.status]} ${result.name}`, indent)
+  }
+
+  /** Prints the summary at `HEADER` level: a line with the counts per status, followed by one line per
+   * failure with its message and one line per warning, see `TestRunner.printSummary`. */
+  public onSummary(summary: TestRunSummary): void {
+    const HEADER = TestRunner.VERBOSITY.HEADER
+    this.onTitle(`${ConsoleReporter.SUMMARY}: ${ConsoleReporter.formatCounts(summary)} (${summary.total} total`
+      + `${this.formatDuration(summary.duration, ", ")})`, HEADER)
+    for (const failure of summary.failures) {
+      const path = failure.suite.concat(failure.name).join(TestRunner.SUITE_SEPARATOR)
+      const hook = failure.hook && failure.hook !== "afterAll" ? ` (${failure.hook} hook)` : ""
+      this.onTitle(`${failure.status.toUpperCase()} ${path}${hook}: [${failure.error.name}] ${failure.message}`, HEADER)
+    }
+    for (const warning of summary.warnings) {
+      this.onTitle(`${ConsoleReporter.WARNING} ${warning}`, HEADER)
+    }
+  }
+
+  /** Formats the counts per status, e.g. `2 passed, 1 failed, 0 errored`. The `skipped` and `todo`
+   * counts are only included if not zero.
+   * @param counts - The counts per status.
+   * @returns {string} - The formatted counts.
+   * @private
+   */
+  private static formatCounts(counts: Record<TestStatus, number>): string {
+    let result = `${counts.passed} passed, ${counts.failed} failed, ${counts.errored} errored`
+    if (counts.skipped > 0) {
+      result += `, ${counts.skipped} skipped`
+    }
+    if (counts.todo > 0) {
+      result += `, ${counts.todo} todo`
+    }
+    return result
+  }
+
+  /** Formats a duration for a title, only if the verbosity is at least `SECTION`.
+   * @param duration - The duration in milliseconds.
+   * @param prefix - The text before the duration, e.g. `, `.
+   * @param suffix - (Optional) The text after the duration, e.g. `)`.
+   * @returns {string} - The formatted duration, or an empty string.
+   * @private
+   */
+  private formatDuration(duration: number, prefix: string, suffix = ""): string {
+    return this._verbosity < TestRunner.VERBOSITY.SECTION ? "" : `${prefix}${duration} ms${suffix}`
+  }
+}
+
+// #endregion ConsoleReporter
+
+// #region JUnitReporter
+/**
+ * Reporter producing a JUnit XML report of the run, the format understood by most CI services and
+ * test dashboards. The report is built when the run ends (`TestRunner.end`), see `JUnitReporter.getOutput`.
+ * Each suite is reported as a `<testsuite>` named with its full path (e.g. `Math > Division`), since nested
+ * test suites are not widely supported, and test cases executed outside a suite are grouped in a `<testsuite>`
+ * named after the report. Failures (`failed`) and errors (`errored`) include the message, the error type and
+ * the stack, `skipped` and `todo` test cases are reported as `<skipped/>`.
+ * @example
+ * ```ts
+ * const junit = new JUnitReporter()
+ * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER,
+ *   { reporters: [new ConsoleReporter(TestRunner.VERBOSITY.HEADER), junit] })
+ * runner.suite("Math", () => runner.exec("Sum", () => Assert.equals(1 + 1, 2)))
+ * runner.end()
+ * console.log(junit.getOutput()) // <?xml version="1.0" encoding="UTF-8"?> <testsuites ...
+ * ```
+ * @remarks Office Scripts cannot write files: log the report, or return the summary from `main` and write
+ * the report outside Excel, as `wrappers/main-wrapper.ts` does with the `--junit` argument.
+ */
+class JUnitReporter implements TestReporter {
+  private static readonly DEFAULT_NAME = "Office Scripts Tests" // Default name of the report
+  private static readonly INDENT = "  "                        // Indentation of nested elements
+
+  /** Name of the report, used for the `<testsuites>` element and the test cases outside suites.*/
+  private readonly _name: string
+
+  /** The XML report, empty until the run ends.*/
+  private _output = ""
+
+  /**Constructs a `JUnitReporter`.
+   * @param name - (Optional) Name of the report (default: `Office Scripts Tests`).
+   */
+  public constructor(name: string = JUnitReporter.DEFAULT_NAME) {
+    this._name = name
+  }
+
+  /** Builds the XML report from the summary of the run.
+   * @param summary - The summary of the run.
+   * @returns {void} - This method does not return a value.
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    this._output = this.render(summary)
+  }
+
+  /** Returns the XML report of the last run end, or an empty string if the run did not end.
+   * @returns {string} - The JUnit XML report.
+   */
+  public getOutput(): string {
+    return this._output
+  }
+
+  /** Renders the XML report of a run.
+   * @param summary - The summary of the run.
+   * @returns {string} - The JUnit XML report.
+   * @private
+   */
+  private render(summary: TestRunSummary): string {
+    const lines = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="${JUnitReporter.escape(this._name)}" tests="${summary.total}" failures="${summary.failed}" `
+      + `errors="${summary.errored}" skipped="${summary.skipped + summary.todo}" time="${JUnitReporter.seconds(summary.duration)}">`
+    ]
+    const root = summary.results.filter(r => r.suite.length === 0)
+    if (root.length > 0) {
+      lines.push(...this.renderSuite(this._name, root, root.reduce((acc, r) => acc + r.duration, 0)))
+    }
+    const pending = summary.suites.slice()
+    while (pending.length > 0) {
+      const suite = pending.shift()
+      lines.push(...this.renderSuite(suite.path.join(TestRunner.SUITE_SEPARATOR), suite.results, suite.duration))
+      pending.unshift(...suite.suites)
+    }
+    lines.push(`</testsuites>`)
+    return lines.join("\n")
+  }
+
+  /** Renders a `<testsuite>` element with its test cases.
+   * @param name - The name of the test suite.
+   * @param results - The results of the test cases.
+   * @param duration - The duration of the suite in milliseconds.
+   * @returns {string[]} - The lines of the element.
+   * @private
+   */
+  private renderSuite(name: string, results: TestResult[], duration: number): string[] {
+    const IN = JUnitReporter.INDENT
+    const counts = TestRunner.countByStatus(results)
+    const lines = [`${IN}<testsuite name="${JUnitReporter.escape(name)}" tests="${results.length}" `
+      + `failures="${counts.failed}" errors="${counts.errored}" skipped="${counts.skipped + counts.todo}" `
+      + `time="${JUnitReporter.seconds(duration)}">`]
+    for (const result of results) {
+      const classname = result.suite.length > 0 ? result.suite.join(TestRunner.SUITE_SEPARATOR) : this._name
+      const open = `${IN}${IN}<testcase name="${JUnitReporter.escape(result.name)}" `
+        + `classname="${JUnitReporter.escape(classname)}" time="${JUnitReporter.seconds(result.duration)}"`
+      const children: string[] = []
+      if (result.status === "failed" || result.status === "errored") {
+        const tag = result.status === "failed" ? "failure" : "error"
+        const hook = result.hook ? ` (${result.hook} hook)` : ""
+        const body = result.error.stack ? result.error.stack : result.message
+        children.push(`<${tag} message="${JUnitReporter.escape(result.message + hook)}" `
+          + `type="${JUnitReporter.escape(result.error.name)}">${JUnitReporter.escape(body)}</${tag}>`)
+      } else if (result.status === "skipped" || result.status === "todo") {
+        children.push(result.status === "todo" ? `<skipped message="todo"/>` : `<skipped/>`)
+      }
+      if (result.warning) {
+        children.push(`<system-out>${JUnitReporter.escape(result.warning)}</system-out>`)
+      }
+      if (children.length === 0) {
+        lines.push(`${open}/>`)
+      } else {
+        lines.push(`${open}>`, ...children.map(c => `${IN}${IN}${IN}${c}`), `${IN}${IN}</testcase>`)
+      }
+    }
+    lines.push(`${IN}</testsuite>`)
+    return lines
+  }
+
+  /** Escapes a text for an XML attribute or element content, and removes the characters not allowed in XML.
+   * @param text - The text to escape.
+   * @returns {string} - The escaped text.
+   * @private
+   */
+  private static escape(text: string): string {
+    return String(text)
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+  }
+
+  /** Converts milliseconds into seconds with three decimals, as expected by the `time` attributes.
+   * @param ms - The duration in milliseconds.
+   * @returns {string} - The duration in seconds.
+   * @private
+   */
+  private static seconds(ms: number): string {
+    return (ms / 1000).toFixed(3)
+  }
+}
+
+// #endregion JUnitReporter
+
+// #region TapReporter
+/**
+ * Reporter producing a TAP version 13 report of the run, to pipe it into TAP tooling. The report is built
+ * when the run ends (`TestRunner.end`), see `TapReporter.getOutput`. Each test case is a test point described
+ * by its path (e.g. `Math > Division > By zero`): `failed` and `errored` test cases are `not ok` with a YAML
+ * diagnostic block (message, severity, error type, hook, actual and expected values, duration and stack),
+ * `skipped` test cases use the `SKIP` directive and `todo` test cases are `not ok` with the `TODO` directive.
+ * The plan and the counts are printed at the end.
+ * @example
+ * ```ts
+ * const tap = new TapReporter()
+ * const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [tap] })
+ * runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ * runner.end()
+ * console.log(tap.getOutput())
+ * // Output:
+ * // TAP version 13
+ * // ok 1 - Sum
+ * // 1..1
+ * // # tests 1 ...
+ * ```
+ */
+class TapReporter implements TestReporter {
+  private static readonly INDENT = "  " // Indentation of the YAML diagnostic blocks
+
+  /** The TAP report, empty until the run ends.*/
+  private _output = ""
+
+  /** Builds the TAP report from the summary of the run.
+   * @param summary - The summary of the run.
+   * @returns {void} - This method does not return a value.
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    this._output = this.render(summary)
+  }
+
+  /** Returns the TAP report of the last run end, or an empty string if the run did not end.
+   * @returns {string} - The TAP version 13 report.
+   */
+  public getOutput(): string {
+    return this._output
+  }
+
+  /** Renders the TAP report of a run.
+   * @param summary - The summary of the run.
+   * @returns {string} - The TAP version 13 report.
+   * @private
+   */
+  private render(summary: TestRunSummary): string {
+    const lines = ["TAP version 13"]
+    summary.results.forEach((result, i) => {
+      const description = result.suite.concat(result.name).join(TestRunner.SUITE_SEPARATOR).replace(/#/g, "\\#")
+      const ok = result.status === "passed" || result.status === "skipped" ? "ok" : "not ok"
+      const directive = result.status === "skipped" ? " # SKIP" : result.status === "todo" ? " # TODO" : ""
+      lines.push(`${ok} ${i + 1} - ${description}${directive}`)
+      lines.push(...this.renderDiagnostic(result))
+    })
+    lines.push(`1..${summary.total}`)
+    lines.push(`# tests ${summary.total}`, `# pass ${summary.passed}`, `# fail ${summary.failed + summary.errored}`)
+    if (summary.skipped > 0) {
+      lines.push(`# skip ${summary.skipped}`)
+    }
+    if (summary.todo > 0) {
+      lines.push(`# todo ${summary.todo}`)
+    }
+    lines.push(`# duration_ms ${summary.duration}`)
+    lines.push(...summary.warnings.map(w => `# WARNING ${w}`))
+    return lines.join("\n")
+  }
+
+  /** Renders the YAML diagnostic block of a test point, only for failures and warnings.
+   * @param result - The result of the test case.
+   * @returns {string[]} - The lines of the block, empty if there is nothing to report.
+   * @private
+   */
+  private renderDiagnostic(result: TestResult): string[] {
+    const failed = result.status === "failed" || result.status === "errored"
+    if (!failed && !result.warning) {
+      return []
+    }
+    const IN = TapReporter.INDENT
+    const lines = [`${IN}---`]
+    if (failed) {
+      lines.push(`${IN}message: ${JSON.stringify(result.message)}`)
+      lines.push(`${IN}severity: ${result.status === "failed" ? "fail" : "error"}`)
+      lines.push(`${IN}type: ${JSON.stringify(result.error.name)}`)
+      if (result.hook) {
+        lines.push(`${IN}hook: ${result.hook}`)
+      }
+      if (result.error.operator !== undefined) {
+        lines.push(`${IN}operator: ${JSON.stringify(result.error.operator)}`)
+      }
+      if (result.error.actual !== undefined) {
+        lines.push(`${IN}actual: ${JSON.stringify(result.error.actual)}`)
+      }
+      if (result.error.expected !== undefined) {
+        lines.push(`${IN}expected: ${JSON.stringify(result.error.expected)}`)
+      }
+    }
+    if (result.warning) {
+      lines.push(`${IN}warning: ${JSON.stringify(result.warning)}`)
+    }
+    lines.push(`${IN}duration_ms: ${result.duration}`)
+    if (failed && result.error.stack) {
+      lines.push(`${IN}stack: |-`, ...result.error.stack.split(/\r?\n/).map(line => `${IN}${IN}${line}`))
+    }
+    lines.push(`${IN}...`)
+    return lines
+  }
+}
+
+// #endregion TapReporter
+
+// #region JsonReporter
+/** JSON result document of a run produced by `JsonReporter`: the summary of the run (see `TestRunSummary`)
+ * with plain JSON values only, so it can be returned from `main` to Power Automate or saved to a file. */
+interface TestReport extends TestRunSummary {
+  /** True if no test case `failed` or `errored`, e.g. for a condition in a Power Automate flow. */
+  success: boolean
+  /** Date and time of the run end, in ISO 8601 format. */
+  timestamp: string
+}
+
+/**
+ * Reporter producing a structured JSON result document of the run (see `TestReport`): counts per status,
+ * test cases with their suite path, status, duration, message and error (including the actual and expected
+ * values, if provided by the error), suites and warnings. The document is built when the run ends
+ * (`TestRunner.end`), see `JsonReporter.getReport` and `JsonReporter.getOutput`.
+ * @example
+ * ```ts
+ * async function main(workbook: ExcelScript.Workbook): Promise<TestReport> {
+ *   const json = new JsonReporter()
+ *   const runner = new TestRunner(TestRunner.VERBOSITY.HEADER,
+ *     { reporters: [new ConsoleReporter(TestRunner.VERBOSITY.HEADER), json] })
+ *   runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ *   runner.end()
+ *   return json.getReport() // Power Automate can branch on the "success" property
+ * }
+ * ```
+ */
+class JsonReporter implements TestReporter {
+  /** The result document, undefined until the run ends.*/
+  private _report: TestReport = undefined
+
+  /** Builds the result document from the summary of the run.
+   * @param summary - The summary of the run.
+   * @returns {void} - This method does not return a value.
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    const report: TestReport = {
+      success: summary.failed + summary.errored === 0,
+      timestamp: new Date().toISOString(),
+      ...summary
+    }
+    // Detach the document from the runner, keeping JSON values only
+    this._report = JSON.parse(JSON.stringify(report)) as TestReport
+  }
+
+  /** Returns the result document of the last run end.
+   * @returns {TestReport} - The result document, or undefined if the run did not end.
+   */
+  public getReport(): TestReport {
+    return this._report
+  }
+
+  /** Returns the result document of the last run end as JSON text.
+   * @param space - (Optional) Indentation of the JSON text (default: `2`).
+   * @returns {string} - The JSON text, or an empty string if the run did not end.
+   */
+  public getOutput(space: number = 2): string {
+    return this._report === undefined ? "" : JSON.stringify(this._report, null, space)
+  }
+}
+
+// #endregion JsonReporter
+
+// #region WorksheetReporter
+/**
+ * Reporter writing the results of the run into a worksheet of the workbook, so they are kept after the
+ * Excel Online session and can be shared. When the run ends (`TestRunner.end`), the worksheet (by default
+ * `Test Results`) is created, or its used range is cleared if it already exists, and filled with a table of suite,
+ * test name, status, duration (ms) and message, one row per test case. Texts starting with `=` are written as text,
+ * not as formulas. The header is bold, and each row is coloured according to the status: green for `passed`, red
+ * for `failed` and `errored`, yellow for `skipped` and `todo`. The rows of the same colour are coloured at once.
+ * @example
+ * ```ts
+ * function main(workbook: ExcelScript.Workbook) {
+ *   const runner = new TestRunner(TestRunner.VERBOSITY.HEADER, {
+ *     reporters: [new ConsoleReporter(TestRunner.VERBOSITY.HEADER), new WorksheetReporter(workbook)]
+ *   })
+ *   runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ *   runner.end() // Writes the "Test Results" worksheet
+ * }
+ * ```
+ */
+class WorksheetReporter implements TestReporter {
+  private static readonly DEFAULT_SHEET_NAME = "Test Results" // Default name of the worksheet
+  private static readonly HEADERS = ["Suite", "Test", "Status", "Duration (ms)", "Message"]
+  private static readonly HEADER_COLOR = "#D9D9D9"          // Fill color of the header row
+  private static readonly STATUS_COLORS: Record<TestStatus, string> = {
+    passed: "#C6EFCE", failed: "#FFC7CE", errored: "#FFC7CE", skipped: "#FFEB9C", todo: "#FFEB9C"
+  }
+
+  /** The workbook to write the results to.*/
+  private readonly _workbook: ExcelScript.Workbook
+
+  /** The name of the worksheet.*/
+  private readonly _sheetName: string
+
+  /**Constructs a `WorksheetReporter`.
+   * @param workbook - The workbook passed to `main`.
+   * @param sheetName - (Optional) Name of the worksheet (default: `Test Results`).
+   */
+  public constructor(workbook: ExcelScript.Workbook, sheetName: string = WorksheetReporter.DEFAULT_SHEET_NAME) {
+    this._workbook = workbook
+    this._sheetName = sheetName
+  }
+
+  /** Writes the results of the run into the worksheet, creating it or clearing its previous content.
+   * @param summary - The summary of the run.
+   * @returns {void} - This method does not return a value.
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    let sheet = this._workbook.getWorksheet(this._sheetName)
+    if (sheet) {
+      const used = sheet.getUsedRange()
+      if (used) {
+        used.clear()
+      }
+    } else {
+      sheet = this._workbook.addWorksheet(this._sheetName)
+    }
+    const COLS = WorksheetReporter.HEADERS.length
+    const rows: (string | number)[][] = summary.results.map(r => [
+      WorksheetReporter.text(r.suite.join(TestRunner.SUITE_SEPARATOR)),
+      WorksheetReporter.text(r.name),
+      r.status,
+      r.duration,
+      WorksheetReporter.text(WorksheetReporter.message(r))
+    ])
+    const values: (string | number)[][] = [WorksheetReporter.HEADERS, ...rows]
+    sheet.getRangeByIndexes(0, 0, values.length, COLS).setValues(values)
+    const header = sheet.getRangeByIndexes(0, 0, 1, COLS).getFormat()
+    header.getFont().setBold(true)
+    header.getFill().setColor(WorksheetReporter.HEADER_COLOR)
+    const blocks = WorksheetReporter.colorBlocks(summary.results.map(r => WorksheetReporter.STATUS_COLORS[r.status]), COLS)
+    Object.keys(blocks).forEach(color => {
+      sheet.getRanges(blocks[color].join(",")).getFormat().getFill().setColor(color)
+    })
+    sheet.getRangeByIndexes(0, 0, values.length, COLS).getFormat().autofitColumns()
+  }
+
+  /** Returns a text to write into a cell as text: Excel would interpret a text starting with `=` as a
+   * formula (e.g. a test name `=SUM`), so it is prefixed with an apostrophe.
+   * @param value - The text.
+   * @returns {string} - The text to write.
    * @private
    */
-  private static safeStringify(value: unknown): string {
-    try {
-      if (typeof value === "string") return `"${value}"`
-      if (value && typeof value === "object") {
-        // Try JSON.stringify
-        try {
-          return JSON.stringify(value)
-        } catch {
-          // Try value.toString() if it's a function
-          try {
-            if (typeof (value as { toString?: unknown }).toString === "function") {
-              return (value as { toString: () => string }).toString()
-            }
-          } catch {}
-          // Try Object.prototype.toString.call(value)
-          try {
-            return Object.prototype.toString.call(value)
-          } catch {}
-          // All else fails
-          return "[unprintable value]"
-        }
+  private static text(value: string): string {
+    return value.charAt(0) === "=" ? `'${value}` : value
+  }
+
+  /** Groups the consecutive result rows of the same colour into blocks, to colour all the rows of a colour at once.
+   * @param colors - The colour of each result row, the first one being the row below the header.
+   * @param columns - The number of columns of the table.
+   * @returns {Record<string, string[]>} - The addresses of the blocks (e.g. `A2:E4`) by colour.
+   * @private
+   */
+  private static colorBlocks(colors: string[], columns: number): Record<string, string[]> {
+    const last = String.fromCharCode(64 + columns)
+    const blocks: Record<string, string[]> = {}
+    let start = 0
+    for (let i = 1; i <= colors.length; i++) {
+      if (i === colors.length || colors[i] !== colors[start]) {
+        (blocks[colors[start]] = blocks[colors[start]] || []).push(`A${start + 2}:${last}${i + 1}`)
+        start = i
       }
-      return String(value)
-    } catch {
-      return "[unprintable value]"
     }
+    return blocks
   }
-  // #endregion safeStringify
 
+  /** Returns the message of a result for the worksheet: the error message (with the hook, if the failure
+   * comes from a hook), otherwise the warning, if any.
+   * @param result - The result of the test case.
+   * @returns {string} - The message, or an empty string.
+   * @private
+   */
+  private static message(result: TestResult): string {
+    const hook = result.hook && result.hook !== "afterAll" ? ` (${result.hook} hook)` : ""
+    const warning = result.warning ? result.warning : ""
+    return result.error ? `[${result.error.name}] ${result.message}${hook}` : warning
+  }
 }
 
-// #endregion Assert
-
+// #endregion WorksheetReporter
 
-// #region TestRunner
+// #region HtmlReporter
 /**
- * A utility class for managing and running test cases with controlled console output.
- * `TestRunner` supports configurable verbosity levels and allows structured logging
- * with indentation for better test output organization. It is primarily designed for
- * test cases using assertion methods (e.g., `Assert.equals`, `Assert.throws`).
- * Verbosity can be set via the `TestRunner.VERBOSITY` in the constructor: constant object (enum pattern)
- * - `OFF` (0): No output
- * - `HEADER` (1): High-level section headers only
- * - `SECTION` (2): First level nested title
- * - `SUBSECTION` (3): Second level nested title
- * 
- * Verbosity level is incremental, i.e. allows all logging events with indentation level that is
- * lower or equal than `TestRunner.VERBOSITY`.
- *
+ * Reporter producing a self-contained HTML report of the run, to share the outcome with non-developers.
+ * The report is built when the run ends (`TestRunner.end`), see `HtmlReporter.getOutput`. It is a single file
+ * with inline styles and script, no external assets, so it works offline. It shows the counts per status, the
+ * suites as collapsible sections (expanded if they contain failures) with the counts and duration, and the
+ * test cases with status and duration. Failures can be expanded to see the message, the actual and expected
+ * values side by side (if provided by the error) and the stack. Checkboxes filter the test cases by status.
  * @example
  * ```ts
- * const runner = new TestRunner(TestRunner.VERBOSITY.SECTION)
- * title("Start Testing") // default indentation is 1 (HEADER)
- * runner.exec("Simple Length Test", () => { // default indentation is 2 (SECTION)
- *   Assert.equals("test".length, 4) // test passed
- * })
- * function sum(a: number, b: number): number {return a + b}
- * const a = 1, b = 2
- * runner.exec("Sum Test", () => {
- *   Assert.equals(sum(a, b), 3) // test passed
- * })
- * title("End Testing")
- *
- * // Output will look like:
- * // * Start Testing *
- * // ** START: Simple Length Test **
- * // ** END: Simple Length Test **
- * // ** START: Sum Test **
- * // ** END: Sum Test **
- * // * End Testing *
+ * const html = new HtmlReporter("Workbook Tests")
+ * const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [html] })
+ * runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ * runner.end()
+ * console.log(html.getOutput()) // <!DOCTYPE html>...
  * ```
- *
- * @remarks 
- * - Test functions are expected to use `Assert` methods internally. If an assertion fails,
- * the error will be caught and reported with context.
- * - For a better organization, consider to put all test cases withing a single `TestCase` class
- * where each test case scenario is defined with a static method.
+ * @remarks Office Scripts cannot write files: log the report, or let `wrappers/main-wrapper.ts` write it
+ * with the `--html` argument.
  */
-class TestRunner {
-  private static readonly START = "START" as const  // Prefix for start of a test case
-  private static readonly END = "END" as const      // Prefix for end of a test case
-  private static readonly HEADER_TK = "*"           // Token for title lines
+class HtmlReporter implements TestReporter {
+  private static readonly DEFAULT_TITLE = "Test Report" // Default title of the report
+  private static readonly STATUSES: TestStatus[] = ["passed", "failed", "errored", "skipped", "todo"]
+  private static readonly STYLE = [
+    "body{font-family:Segoe UI,Arial,sans-serif;margin:24px;color:#222}",
+    "h1{font-size:1.5em;margin:0 0 8px}",
+    ".meta{color:#666;margin-bottom:12px}",
+    ".filters{margin:12px 0}.filters label{margin-right:16px;cursor:pointer}",
+    ".badge{display:inline-block;padding:1px 8px;border-radius:8px;font-size:.85em;color:#fff}",
+    ".badge.passed{background:#2e7d32}.badge.failed{background:#c62828}.badge.errored{background:#6a1b9a}",
+    ".badge.skipped{background:#9e9e9e}.badge.todo{background:#f9a825}",
+    "details.suite{border:1px solid #ddd;border-radius:4px;margin:8px 0;padding:4px 8px}",
+    "details.suite>summary{cursor:pointer;font-weight:600}",
+    ".counts,.duration{font-weight:normal;color:#666;margin-left:8px;font-size:.9em}",
+    ".test{padding:4px 0;border-top:1px solid #f0f0f0}",
+    ".test.failed,.test.errored{background:#fff5f5}",
+    "details.failure>summary{cursor:pointer;color:#c62828;white-space:pre-wrap}",
+    ".values{display:flex;gap:12px;margin:6px 0}.values>div{flex:1;min-width:0}",
+    ".values h4{margin:0 0 4px;font-size:.85em;color:#666}",
+    "pre{background:#f6f8fa;padding:6px;margin:0;overflow:auto;white-space:pre-wrap;word-break:break-word}",
+    ".warning{color:#8d6e00}"
+  ].join("\n")
+    + "\n" + HtmlReporter.STATUSES.map(st => `.hide-${st} .test.${st}{display:none}`).join("\n")
+  private static readonly SCRIPT = [
+    "document.querySelectorAll('.filters input').forEach(function (box) {",
+    "  box.addEventListener('change', function () {",
+    "    document.body.classList.toggle('hide-' + box.getAttribute('data-status'), !box.checked)",
+    "  })",
+    "})"
+  ].join("\n")
 
-  /**Allowed verbosity levels, to control the output of `TestRunner.title` method.*/
-  public static readonly VERBOSITY = {
-    OFF: 0,
-    HEADER: 1,
-    SECTION: 2,
-    SUBSECTION: 3
-  } as const;
+  /** Title of the report.*/
+  private readonly _title: string
 
-  // To facilitate the label associated to the verbosity value.
-  private static readonly VERBOSITY_LABELS = Object.entries(TestRunner.VERBOSITY).reduce((acc, [key, value]) => {
-    acc[value] = key;
-    return acc;
-  }, {} as Record<number, string>)
+  /** The HTML report, empty until the run ends.*/
+  private _output = ""
 
-  // Default verbosity level to initialize the TestRunner, if not specified
-  private static readonly DEFAULT_VERBOSITY = TestRunner.VERBOSITY.HEADER
+  /**Constructs an `HtmlReporter`.
+   * @param title - (Optional) Title of the report (default: `Test Report`).
+   */
+  public constructor(title: string = HtmlReporter.DEFAULT_TITLE) {
+    this._title = title
+  }
 
-  /** The verbosity level of the TestRunner instance.*/
-  private readonly _verbosity: typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY]
+  /** Builds the HTML report from the summary of the run.
+   * @param summary - The summary of the run.
+   * @returns {void} - This method does not return a value.
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    this._output = this.render(summary)
+  }
 
-  /**Constructs a `TestRunner` with the specified verbosity level.
-   * @param verbosity - One of the values from `TestRunner.VERBOSITY` (default: `HEADER(1)`)
+  /** Returns the HTML report of the last run end, or an empty string if the run did not end.
+   * @returns {string} - The HTML document.
    */
-  public constructor(verbosity: typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY] = TestRunner.DEFAULT_VERBOSITY) {
-    this._verbosity = verbosity
+  public getOutput(): string {
+    return this._output
   }
 
-  /** Returns the current verbosity level. 
-   * @returns {number} - The current verbosity level as defined in `TestRunner.VERBOSITY`.
-   * @example
-   * ```ts
-   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
-   * console.log(runner.getVerbosity()) // Outputs: 1
-   * ```
-   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
-   * @see {@link TestRunner.getVerbosityLabel} for the string label of the verbosity level.
-  */
-  public getVerbosity(): typeof TestRunner.VERBOSITY[keyof typeof TestRunner.VERBOSITY] {
-    return this._verbosity
+  /** Renders the HTML document of a run.
+   * @param summary - The summary of the run.
+   * @returns {string} - The HTML document.
+   * @private
+   */
+  private render(summary: TestRunSummary): string {
+    const esc = HtmlReporter.escape
+    const counts = HtmlReporter.STATUSES.map(st => `<span class="badge ${st}">${summary[st]} ${st}</span>`).join(" ")
+    const filters = HtmlReporter.STATUSES.map(st =>
+      `<label><input type="checkbox" data-status="${st}" checked> ${st} (${summary[st]})</label>`).join("")
+    const lines = [
+      `<!DOCTYPE html>`,
+      `<html lang="en">`,
+      `<head>`,
+      `<meta charset="utf-8">`,
+      `<title>${esc(this._title)}</title>`,
+      `<style>\n${HtmlReporter.STYLE}\n</style>`,
+      `</head>`,
+      `<body>`,
+      `<h1>${esc(this._title)}</h1>`,
+      `<div class="meta">${counts} <span class="duration">${summary.total} total, ${summary.duration} ms</span></div>`,
+      `<div class="filters">${filters}</div>`
+    ]
+    lines.push(...summary.warnings.map(w => `<div class="warning">WARNING ${esc(w)}</div>`))
+    lines.push(...summary.results.filter(r => r.suite.length === 0).map(r => this.renderTest(r)))
+    lines.push(...summary.suites.map(suite => this.renderSuite(suite)))
+    lines.push(`<script>\n${HtmlReporter.SCRIPT}\n</script>`, `</body>`, `</html>`)
+    return lines.join("\n")
   }
 
-  /** Returns the corresonding string label for the verbosity level. 
-   * This is useful for logging or debugging purposes.
-   * @returns {string} - The label corresponding to the current verbosity level.
-   * @example
-   * ```ts
-   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
-   * console.log(runner.getVerbosityLabel()) // Outputs: "HEADER"
-   * ```
-   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
-   * @see {@link TestRunner.getVerbosity} for the numeric verbosity level.
-  */
-  public getVerbosityLabel() {
-    return TestRunner.VERBOSITY_LABELS[this._verbosity]
+  /** Renders a suite as a collapsible section, expanded if it contains failures.
+   * @param suite - The suite.
+   * @returns {string} - The HTML of the suite.
+   * @private
+   */
+  private renderSuite(suite: SuiteResult): string {
+    const counts = TestRunner.countByStatus(TestRunner.flattenSuite(suite))
+    const failing = counts.failed + counts.errored > 0
+    const text = HtmlReporter.STATUSES.filter(st => counts[st] > 0).map(st => `${counts[st]} ${st}`).join(", ")
+    return [
+      `<details class="suite"${failing ? " open" : ""}>`,
+      `<summary>${HtmlReporter.escape(suite.name)}<span class="counts">${text}</span>`
+      + `<span class="duration">${suite.duration} ms</span></summary>`,
+      ...suite.results.map(r => this.renderTest(r)),
+      ...suite.suites.map(s => this.renderSuite(s)),
+      `</details>`
+    ].join("\n")
   }
 
-  /**
-   * Conditionally prints a title message based on the configured verbosity.
-   * The title is prefixed and suffixed with `*` characters for visual structure.
-   * The number of `*` will depend on the indentation level, for `2` it shows
-   * `**` as prefix and suffix.
-   * @param msg - The message to display
-   * @param indent - Indentation level (default: `1(HEADER)`). The indentation level is indicated
-   *                with the number of `*` characters used as prefix and suffix to the title.
-   * @returns {void} - This method does not return a value.
-   * @example
-   * ```ts
-   * const runner = new TestRunner(TestRunner.VERBOSITY.HEADER)
-   * runner.title("My Test Section", 2) // Outputs: "** My Test Section **"
-   * ```
-   * @remarks This method is used to create structured output for test sections or titles.
-   *          It helps in organizing test output visually, especially when running multiple tests.
-   *          The indentation level allows for hierarchical organization of test cases.
-   * @see {@link TestRunner.VERBOSITY} for available verbosity levels.
-   * @see {@link TestRunner.getVerbosity} for the current verbosity level.
-   * @see {@link TestRunner.getVerbosityLabel} for the string label of the verbosity level.
+  /** Renders a test case with its status and duration, and the failure details if any.
+   * @param result - The result of the test case.
+   * @returns {string} - The HTML of the test case.
+   * @private
    */
-  public title(msg: string, indent: number = 1): void {
-    if (indent <= this._verbosity) {
-      const TOKEN = TestRunner.HEADER_TK.repeat(indent);
-      console.log(`${TOKEN} ${msg} ${TOKEN}`)
+  private renderTest(result: TestResult): string {
+    const esc = HtmlReporter.escape
+    const parts = [`<div class="test ${result.status}">`,
+      `<span class="badge ${result.status}">${result.status}</span> ${esc(result.name)}`
+      + `<span class="duration">${result.duration} ms</span>`]
+    if (result.error) {
+      const hook = result.hook ? ` (${result.hook} hook)` : ""
+      parts.push(`<details class="failure"><summary>[${esc(result.error.name)}] ${esc(result.message)}${esc(hook)}</summary>`)
+      if (result.error.actual !== undefined || result.error.expected !== undefined) {
+        parts.push(`<div class="values">`
+          + `<div><h4>Actual</h4><pre>${esc(String(result.error.actual))}</pre></div>`
+          + `<div><h4>Expected</h4><pre>${esc(String(result.error.expected))}</pre></div></div>`)
+      }
+      if (result.error.stack) {
+        parts.push(`<pre class="stack">${esc(result.error.stack)}</pre>`)
+      }
+      parts.push(`</details>`)
+    }
+    if (result.warning) {
+      parts.push(`<div class="warning">${esc(result.warning)}</div>`)
     }
+    parts.push(`</div>`)
+    return parts.join("")
   }
 
-  /** Executes a test case with a title and handles assertions.
-   * This method logs the start and end of the test case with titles (using `TestRunner.title` method)
-   * if the verbosity level allows it.
-   * It executes the provided function which should contain assertions.
-   * If an assertion fails, it will throw an `AssertionError`. 
-   * See detailed JSDoc in class documentation 
-   * @param name - The name of the test case.
-   * @param fn - The function containing the test logic. It should contain assertions using `Assert` methods.
-   * @param indent - Indentation level for the title (default: `2(SECTION)`). The indentation level is indicated
-   *                 with the number of suffix `*`.
-   * @throws AssertionError - If an assertion fails within the test function fn. 
-   *                        - If the provided fn is not a function.
+  /** Escapes a text for HTML content or attributes.
+   * @param text - The text to escape.
+   * @returns {string} - The escaped text.
+   * @private
+   */
+  private static escape(text: string): string {
+    return String(text)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;")
+  }
+}
+
+// #endregion HtmlReporter
+
+// #region MarkdownReporter
+/**
+ * Reporter producing a compact Markdown summary of the run, e.g. for a pull request comment or
+ * `$GITHUB_STEP_SUMMARY`. The summary is built when the run ends (`TestRunner.end`), see
+ * `MarkdownReporter.getOutput`. It contains the outcome, a table with the totals, a table of the failures
+ * (`failed` and `errored` test cases with their error message), the slowest test cases and the warnings.
+ * @example
+ * ```ts
+ * const md = new MarkdownReporter()
+ * const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [md] })
+ * runner.exec("Sum", () => Assert.equals(1 + 1, 2))
+ * runner.end()
+ * console.log(md.getOutput())
+ * // Output:
+ * // ## Test Results: PASSED
+ * //
+ * // | Total | Passed | Failed | Errored | Skipped | Todo | Duration |
+ * // ...
+ * ```
+ */
+class MarkdownReporter implements TestReporter {
+  private static readonly DEFAULT_TITLE = "Test Results" // Default title of the summary
+  private static readonly DEFAULT_SLOWEST = 5           // Default number of slowest test cases listed
+
+  /** Title of the summary.*/
+  private readonly _title: string
+
+  /** Number of slowest test cases listed.*/
+  private readonly _slowest: number
+
+  /** The Markdown summary, empty until the run ends.*/
+  private _output = ""
+
+  /**Constructs a `MarkdownReporter`.
+   * @param title - (Optional) Title of the summary (default: `Test Results`).
+   * @param slowest - (Optional) Number of slowest test cases listed, `0` to omit them (default: `5`).
+   */
+  public constructor(title: string = MarkdownReporter.DEFAULT_TITLE, slowest: number = MarkdownReporter.DEFAULT_SLOWEST) {
+    this._title = title
+    this._slowest = slowest
+  }
+
+  /** Builds the Markdown summary of the run.
+   * @param summary - The summary of the run.
    * @returns {void} - This method does not return a value.
-   * @remarks Always pass a function reference using `() => ....`
-   *          If you pass a direct function call, the code will execute before
-   *          and not at indicated place it should be executed inside this method and it may produce unexpected results.
-   * @example
-   * ```ts
-   * const runner = new TestRunner()
-   * runner.exec("My Test", () => {
-   *   Assert.equals(1 + 1, 2)
-   * })
-   * ```
-  */
-  public exec(name: string, fn: () => void, indent: number = TestRunner.VERBOSITY.SECTION): void {
-    this.title(`${TestRunner.START} ${name}`, indent);
-    if (typeof fn !== "function") {
-      throw new AssertionError("TestRunner.exec() expects a function as input.");
+   */
+  public onRunEnd(summary: TestRunSummary): void {
+    this._output = this.render(summary)
+  }
+
+  /** Returns the Markdown summary of the last run end, or an empty string if the run did not end.
+   * @returns {string} - The Markdown summary.
+   */
+  public getOutput(): string {
+    return this._output
+  }
+
+  /** Renders the Markdown summary of a run.
+   * @param summary - The summary of the run.
+   * @returns {string} - The Markdown summary.
+   * @private
+   */
+  private render(summary: TestRunSummary): string {
+    const cell = MarkdownReporter.cell
+    const outcome = summary.failed + summary.errored === 0 ? "PASSED" : "FAILED"
+    const lines = [
+      `## ${cell(this._title)}: ${outcome}`,
+      ``,
+      `| Total | Passed | Failed | Errored | Skipped | Todo | Duration |`,
+      `|---:|---:|---:|---:|---:|---:|---:|`,
+      `| ${summary.total} | ${summary.passed} | ${summary.failed} | ${summary.errored} | ${summary.skipped} `
+      + `| ${summary.todo} | ${summary.duration} ms |`
+    ]
+    if (summary.failures.length > 0) {
+      lines.push(``, `### Failures`, ``, `| Test | Status | Message |`, `|---|---|---|`)
+      for (const r of summary.failures) {
+        const hook = r.hook && r.hook !== "afterAll" ? ` (${r.hook} hook)` : ""
+        lines.push(`| ${cell(MarkdownReporter.path(r) + hook)} | ${r.status} | ${cell(`[${r.error.name}] ${r.message}`)} |`)
+      }
+    }
+    const slowest = summary.results.filter(r => r.duration > 0)
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, this._slowest)
+    if (slowest.length > 0) {
+      lines.push(``, `### Slowest tests`, ``, `| Test | Duration |`, `|---|---:|`)
+      lines.push(...slowest.map(r => `| ${cell(MarkdownReporter.path(r))} | ${r.duration} ms |`))
     }
-    fn()
-    this.title(`${TestRunner.END} ${name}`, indent)
+    if (summary.warnings.length > 0) {
+      lines.push(``, `### Warnings`, ``, ...summary.warnings.map(w => `- ${cell(w)}`))
+    }
+    return lines.join("\n") + "\n"
+  }
+
+  /** Returns the path of a test case, e.g. `Math > Division > By zero`.
+   * @param result - The result of the test case.
+   * @returns {string} - The path.
+   * @private
+   */
+  private static path(result: TestResult): string {
+    return result.suite.concat(result.name).join(TestRunner.SUITE_SEPARATOR)
+  }
+
+  /** Escapes a text for a Markdown table cell: pipes are escaped, line breaks become `<br>`, and `<` is
+   * escaped so the text cannot be interpreted as HTML tags, so a message cannot break the table.
+   * @param text - The text to escape.
+   * @returns {string} - The escaped text.
+   * @private
+   */
+  private static cell(text: string): string {
+    return String(text)
+      .replace(/</g, "&lt;")
+      .replace(/\|/g, "\\|")
+      .replace(/\r?\n/g, "<br>")
   }
 }
 
-// #endregion TestRunner
+// #endregion MarkdownReporter
 
 // ===========================================================
 // End of Lightweight unit testing framework for Office Script
@@ -888,6 +5459,34 @@ if (typeof globalThis !== "undefined") {
     // @ts-ignore
     globalThis.TestRunner = TestRunner
   }
+  if (typeof ConsoleReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.ConsoleReporter = ConsoleReporter
+  }
+  if (typeof JUnitReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.JUnitReporter = JUnitReporter
+  }
+  if (typeof TapReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.TapReporter = TapReporter
+  }
+  if (typeof JsonReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.JsonReporter = JsonReporter
+  }
+  if (typeof WorksheetReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.WorksheetReporter = WorksheetReporter
+  }
+  if (typeof HtmlReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.HtmlReporter = HtmlReporter
+  }
+  if (typeof MarkdownReporter !== "undefined") {
+    // @ts-ignore
+    globalThis.MarkdownReporter = MarkdownReporter
+  }
   if (typeof Assert !== "undefined") {
     // @ts-ignore
     globalThis.Assert = Assert
@@ -896,6 +5495,18 @@ if (typeof globalThis !== "undefined") {
     // @ts-ignore
     globalThis.AssertionError = AssertionError
   }
+  if (typeof AsymmetricMatcher !== "undefined") {
+    // @ts-ignore
+    globalThis.AsymmetricMatcher = AsymmetricMatcher
+  }
+  if (typeof Expectation !== "undefined") {
+    // @ts-ignore
+    globalThis.Expectation = Expectation
+  }
+  if (typeof expect !== "undefined") {
+    // @ts-ignore
+    globalThis.expect = expect
+  }
 }
 
 //#endregion unit-test-framework.ts
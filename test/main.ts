@@ -6,8 +6,8 @@
 // ----------------------------------------
 
 // main test file for the unit test framework
-function main(workbook: ExcelScript.Workbook
-) {
+async function main(workbook: ExcelScript.Workbook
+): Promise<TestReport> {
 
   // Parameters and constants definitions
   // ------------------------------------
@@ -19,8 +19,14 @@ function main(workbook: ExcelScript.Workbook
   const START_TEST = "START TEST"
   const END_TEST = "END TEST"
   const SHOW_TRACE = false
+  const RESULTS_SHEET = "Test Results" // Worksheet with the results of the run, "" to disable it
 
-  let run: TestRunner = new TestRunner(VERBOSITY) // Controles the test execution process
+  const json = new JsonReporter() // Result document returned to Power Automate (and to wrappers/main-wrapper.ts)
+  const reporters: TestReporter[] = [new ConsoleReporter(VERBOSITY), json]
+  if (RESULTS_SHEET) {
+    reporters.push(new WorksheetReporter(workbook, RESULTS_SHEET))
+  }
+  let run: TestRunner = new TestRunner(VERBOSITY, { reporters }) // Controles the test execution process
   let success = false // Control variable to send the last message in finally
 
   // MAIN EXECUTION
@@ -29,47 +35,92 @@ function main(workbook: ExcelScript.Workbook
   try {
     const VERBOSITY_LEVEL = run.getVerbosityLabel()
     run.title(`${START_TEST} with verbosity '${VERBOSITY_LEVEL}'`, 1)
-    let indent: number = 2 // Use the same indentation level for all test cases
 
-    /*All functions need to be invoked using arrow function (=>).
-    Test cases organized by topics. They don't have any dependency, so they can
-    be executed in any order.*/
+    /*All functions need to be invoked using arrow function (=>). Asynchronous test cases and
+    suites need to be awaited.
+    Test cases organized by topics (suites). They don't have any dependency, so they can
+    be executed in any order. The indentation level is derived from the suite nesting.*/
 
     // TestRunner tests
-    run.title(`${START_TEST} Testing TestRunner Class`, 2)
-    run.exec("TestRunner.titleVerbosityOff", () => TestRunnerTest.titleVerbosityOff(), indent)
-    run.exec("TestRunner.titleVerbosityOff", () => TestRunnerTest.titlesAndExec, indent)
-    run.exec("TestRunner.titleVerbosityOff", () => TestRunnerTest.verbosityProperties, indent)
-    run.title(`${END_TEST} Testing TestRunner Class`, 2)
-
-    run.title(`${START_TEST} Testing Assert Class`, 2)
-    run.exec("Assert.isTrue", () => AssertTest.isTrue(), indent)
-    run.exec("Assert.isFalse", () => AssertTest.isFalse(), indent)
-    run.exec("Assert.throws", () => AssertTest.throws(), indent)
-    run.exec("Assert.doesNotThrow", () => AssertTest.doesNotThrow(), indent)
-    run.exec("Assert.isNull", () => AssertTest.isNull(), indent)
-    run.exec("Assert.isNotNull", () => AssertTest.isNotNull(), indent)
-    run.exec("Assert.isType", () => AssertTest.isType(), indent)
-    run.exec("Assert.equalsPrimitivesAndObjects", () => AssertTest.equalsPrimitivesAndObjects(), indent)
-    run.exec("Assert.equalsArrays", () => AssertTest.equalsArrays(), indent)
-    run.exec("Assert.instanceOf", () => AssertTest.isInstanceOf(), indent)
-    run.exec("Assert.isNotInstanceOf", () => AssertTest.isNotInstanceOf(), indent)
-    run.exec("Assert.notEquals", () => AssertTest.notEquals(), indent)
-    run.exec("Assert.contains", () => AssertTest.contains(), indent)
-    run.exec("Assert.isNotUndefined_and_isDefined", () => AssertTest.isNotUndefined_and_isDefined(), indent)
-
-
-    // Testing stringify
-    run.exec("Test Case AssertSafeStringifyTest.throwsToString", () => AssertSafeStringifyTest.throwsToString(), indent+1)
-    run.exec("AssertSafeStringifyTest.circularReference", () => AssertSafeStringifyTest.circularReference(), indent+1)
-    run.exec("AssertSafeStringifyTest.symbolValue", () => AssertSafeStringifyTest.symbolValue(), indent+1)
-    run.exec("AssertSafeStringifyTest.functionValue", () => AssertSafeStringifyTest.functionValue(), indent+1)
-    run.exec("AssertSafeStringifyTest.stringIsQuoted", () => AssertSafeStringifyTest.stringIsQuoted(), indent+1)
-    run.exec("AssertSafeStringifyTest.falsyValues", () => AssertSafeStringifyTest.falsyValues(), indent+1)
-    run.exec("AssertSafeStringifyTest.null", () => AssertSafeStringifyTest.safeStringify_null(), indent+1)
-    run.title(`${END_TEST} Testing Assert Class`, 2)
-
-    success = true
+    await run.suite("Testing TestRunner Class", async () => {
+      run.exec("TestRunner.titleVerbosityOff", () => TestRunnerTest.titleVerbosityOff())
+      run.exec("TestRunner.titlesAndExec", () => TestRunnerTest.titlesAndExec())
+      run.exec("TestRunner.verbosityProperties", () => TestRunnerTest.verbosityProperties())
+      run.exec("TestRunner.execCollectsResults", () => TestRunnerTest.execCollectsResults())
+      run.exec("TestRunner.suites", () => TestRunnerTest.suites())
+      run.exec("TestRunner.hooks", () => TestRunnerTest.hooks())
+      run.exec("TestRunner.hookFailures", () => TestRunnerTest.hookFailures())
+      run.exec("TestRunner.skipAndTodo", () => TestRunnerTest.skipAndTodo())
+      run.exec("TestRunner.only", () => TestRunnerTest.only())
+      await run.exec("TestRunner.asyncExec", () => TestRunnerTest.asyncExec())
+      await run.exec("TestRunner.asyncHooksAndSuites", () => TestRunnerTest.asyncHooksAndSuites())
+      await run.exec("TestRunner.timeouts", () => TestRunnerTest.timeouts())
+      run.exec("TestRunner.reporters", () => TestRunnerTest.reporters())
+    })
+
+    await run.suite("Testing Assert Class", async () => {
+      run.exec("Assert.isTrue", () => AssertTest.isTrue())
+      run.exec("Assert.isFalse", () => AssertTest.isFalse())
+      run.exec("Assert.throws", () => AssertTest.throws())
+      run.exec("Assert.doesNotThrow", () => AssertTest.doesNotThrow())
+      await run.exec("Assert.rejects", () => AssertTest.rejects())
+      await run.exec("Assert.doesNotReject", () => AssertTest.doesNotReject())
+      await run.exec("Assert.throwsMatchers", () => AssertTest.throwsMatchers())
+      run.exec("Assert.isNull", () => AssertTest.isNull())
+      run.exec("Assert.isNotNull", () => AssertTest.isNotNull())
+      run.exec("Assert.isType", () => AssertTest.isType())
+      run.exec("Assert.isNotType", () => AssertTest.isNotType())
+      run.exec("Assert.equalsPrimitivesAndObjects", () => AssertTest.equalsPrimitivesAndObjects())
+      run.exec("Assert.equalsArrays", () => AssertTest.equalsArrays())
+      run.exec("Assert.equalsDifferences", () => AssertTest.equalsDifferences())
+      run.exec("Assert.deepEquality", () => AssertTest.deepEquality())
+      run.exec("Assert.closeTo", () => AssertTest.closeTo())
+      run.exec("Assert.rangeAssertions", () => AssertTest.rangeAssertions())
+      run.exec("Assert.comparisons", () => AssertTest.comparisons())
+      run.exec("Assert.stringAssertions", () => AssertTest.stringAssertions())
+      run.exec("Assert.partialMatching", () => AssertTest.partialMatching())
+      run.exec("Assert.customAssertions", () => AssertTest.customAssertions())
+      run.exec("Assert.soft", () => AssertTest.soft())
+      await run.exec("Assert.softAsync", () => AssertTest.softAsync())
+      run.exec("Assert.instanceOf", () => AssertTest.isInstanceOf())
+      run.exec("Assert.isNotInstanceOf", () => AssertTest.isNotInstanceOf())
+      run.exec("Assert.notEquals", () => AssertTest.notEquals())
+      run.exec("Assert.contains", () => AssertTest.contains())
+      run.exec("Assert.collectionAssertions", () => AssertTest.collectionAssertions())
+      run.exec("Assert.isUndefined", () => AssertTest.isUndefined())
+      run.exec("Assert.isNotUndefined_and_isDefined", () => AssertTest.isNotUndefined_and_isDefined())
+      run.exec("Assert.structuredErrors", () => AssertTest.structuredErrors())
+
+      run.suite("Testing Assert.safeStringify", () => {
+        run.exec("Test Case AssertSafeStringifyTest.throwsToString", () => AssertSafeStringifyTest.throwsToString())
+        run.exec("AssertSafeStringifyTest.circularReference", () => AssertSafeStringifyTest.circularReference())
+        run.exec("AssertSafeStringifyTest.symbolValue", () => AssertSafeStringifyTest.symbolValue())
+        run.exec("AssertSafeStringifyTest.functionValue", () => AssertSafeStringifyTest.functionValue())
+        run.exec("AssertSafeStringifyTest.stringIsQuoted", () => AssertSafeStringifyTest.stringIsQuoted())
+        run.exec("AssertSafeStringifyTest.falsyValues", () => AssertSafeStringifyTest.falsyValues())
+        run.exec("AssertSafeStringifyTest.null", () => AssertSafeStringifyTest.safeStringify_null())
+      })
+    })
+
+    await run.suite("Testing expect", async () => {
+      run.exec("ExpectTest.matchers", () => ExpectTest.matchers())
+      run.exec("ExpectTest.negation", () => ExpectTest.negation())
+      await run.exec("ExpectTest.asynchronous", () => ExpectTest.asynchronous())
+    })
+
+    run.suite("Testing Reporters", () => {
+      run.exec("ReporterTest.junit", () => ReporterTest.junit())
+      run.exec("ReporterTest.tap", () => ReporterTest.tap())
+      run.exec("ReporterTest.json", () => ReporterTest.json())
+      run.exec("ReporterTest.worksheet", () => ReporterTest.worksheet(workbook))
+      run.exec("ReporterTest.html", () => ReporterTest.html())
+      run.exec("ReporterTest.markdown", () => ReporterTest.markdown())
+    })
+
+    // Failing test cases don't abort the execution, check the summary at the end
+    const summary = run.end()
+    run.printSummary()
+    success = summary.failed + summary.errored === 0
   } catch (e) {
     // TypeScript strict mode: 'e' is of type 'unknown', so we must check its type before property access
     let info: string
@@ -107,6 +158,7 @@ function main(workbook: ExcelScript.Workbook
   } finally {
     run.title(success ? `${END_TEST}: OK` : `${END_TEST}: FAIL`, 1)
   }
+  return json.getReport() // Undefined if the run was aborted before TestRunner.end
 } // End of main
 
 // Testing Classes
@@ -434,6 +486,54 @@ class AssertTest {
     }
   }
 
+  public static async rejects(): Promise<void> {
+    // Positive: rejecting promise and async function
+    await Assert.rejects(Promise.reject(new Error("fail")), Error, "fail", "rejects: rejected promise")
+    await Assert.rejects(async () => { throw new TypeError("bad type") }, TypeError, "bad type",
+      "rejects: async function throwing TypeError")
+    await Assert.rejects(() => { throw new RangeError("sync") }, RangeError, undefined,
+      "rejects: function throwing synchronously")
+
+    // Negative: resolved promise
+    await Assert.rejects(
+      Assert.rejects(Promise.resolve(1), undefined, undefined, "rejects"),
+      AssertionError,
+      "rejects: Expected promise to reject, but it resolved.",
+      "rejects: resolved promise should fail"
+    )
+    // Negative: wrong type or message
+    await Assert.rejects(
+      Assert.rejects(async () => { throw new Error("fail") }, TypeError),
+      AssertionError,
+      "Expected error type TypeError, but got Error.",
+      "rejects: wrong error type should fail"
+    )
+    await Assert.rejects(
+      Assert.rejects(async () => { throw new Error("fail") }, Error, "other"),
+      AssertionError,
+      'Expected message "other", but got "fail".',
+      "rejects: wrong message should fail"
+    )
+    // Negative: rejection value is not an Error
+    await Assert.rejects(
+      Assert.rejects(Promise.reject(42)),
+      AssertionError,
+      "Rejected value is not an Error instance: (42)",
+      "rejects: non-Error rejection value should fail"
+    )
+  }
+
+  public static async doesNotReject(): Promise<void> {
+    await Assert.doesNotReject(Promise.resolve(1), "doesNotReject: resolved promise")
+    await Assert.doesNotReject(async () => { await Promise.resolve() }, "doesNotReject: async function")
+    await Assert.rejects(
+      Assert.doesNotReject(async () => { throw new Error("fail") }, "doesNotReject"),
+      AssertionError,
+      "doesNotReject: Expected promise not to reject, but it rejected with: {}",
+      "doesNotReject: rejected promise should fail"
+    )
+  }
+
   public static isNull(): void {
     // Positive: should not throw for null
     Assert.doesNotThrow(
@@ -693,7 +793,8 @@ class AssertTest {
     Assert.throws(
       () => { Assert.equals({ a: 1, b: "x" }, { a: 2, b: "x" }, "equals: objects should not match") },
       AssertionError,
-      "equals: objects should not match: Assertion failed: actual ({\"a\":1,\"b\":\"x\"}) !== expected ({\"a\":2,\"b\":\"x\"})",
+      "equals: objects should not match: Assertion failed: actual ({\"a\":1,\"b\":\"x\"}) !== expected ({\"a\":2,\"b\":\"x\"})\n" +
+      "Differences:\n  .a: actual (1) !== expected (2)",
       "equalsPrimitivesAndObjects: should throw for different objects"
     )
 
@@ -717,7 +818,8 @@ class AssertTest {
     Assert.throws(
       () => { Assert.equals([{ x: 1 }], [{ x: 2 }], "equals: arrays of objects should not match") },
       AssertionError,
-      "equals: arrays of objects should not match: Array object value mismatch at index 0: actual ({\"x\":1}) !== expected ({\"x\":2})",
+      "equals: arrays of objects should not match: Array object value mismatch at index 0: actual ({\"x\":1}) !== expected ({\"x\":2})\n" +
+      "Differences:\n  [0].x: actual (1) !== expected (2)",
       "equalsPrimitivesAndObjects: should throw for arrays of objects with different field values"
     )
 
@@ -749,7 +851,8 @@ class AssertTest {
     Assert.throws(
       () => { Assert.equals([{ a: [1, 2] }, { b: 3 }], [{ a: [1, 2] }, { b: 4 }], "equals: nested arrays/objects should not match") },
       AssertionError,
-      "equals: nested arrays/objects should not match: Array object value mismatch at index 1: actual ({\"b\":3}) !== expected ({\"b\":4})",
+      "equals: nested arrays/objects should not match: Array object value mismatch at index 1: actual ({\"b\":3}) !== expected ({\"b\":4})\n" +
+      "Differences:\n  [1].b: actual (3) !== expected (4)",
       "equalsPrimitivesAndObjects: should throw for nested array/object value mismatch"
     )
   }
@@ -794,7 +897,8 @@ class AssertTest {
     Assert.throws(
       () => { Assert.equals([{ x: 1 }], [{ x: 2 }], "equals: arrays of objects with different values") },
       AssertionError,
-      "equals: arrays of objects with different values: Array object value mismatch at index 0: actual ({\"x\":1}) !== expected ({\"x\":2})",
+      "equals: arrays of objects with different values: Array object value mismatch at index 0: actual ({\"x\":1}) !== expected ({\"x\":2})\n" +
+      "Differences:\n  [0].x: actual (1) !== expected (2)",
       "equalsArrays: should throw for arrays of objects with different values"
     )
 
@@ -1050,6 +1154,720 @@ class AssertTest {
     )
   }
 
+  /** Test the differences listed by path in equals failure messages, and the line diff of multi-line strings. */
+  public static equalsDifferences(): void {
+    const messageOf = (fn: () => void): string => {
+      try {
+        fn()
+      } catch (e) {
+        return (e as Error).message
+      }
+      throw new Error("equalsDifferences: the assertion did not throw")
+    }
+    const differencesOf = (fn: () => void): string[] => messageOf(fn).split("\n").slice(1)
+
+    // 2D arrays: path of each differing cell, missing and unexpected rows
+    Assert.equals(differencesOf(() => Assert.equals([[1, 2, 3], [4, 5, 6]], [[1, 2, 3], [4, 6, 6], [7]])), [
+      "Differences:",
+      "  [1][1]: actual (5) !== expected (6)",
+      "  [2]: missing, expected ([7])"
+    ], "equalsDifferences: 2D arrays")
+    Assert.equals(differencesOf(() => Assert.equals([[1], [2]], [[1, 0]])), [
+      "Differences:",
+      "  [0][1]: missing, expected (0)",
+      "  [1]: unexpected ([2])"
+    ], "equalsDifferences: 2D arrays of different length")
+
+    // Objects: nested properties, types and keys which are not identifiers
+    const actual = { customer: { id: 1, tags: ["a"] }, total: "10", "unit price": 2, extra: true }
+    const expected = { customer: { id: 1, name: "Ann", tags: ["b"] }, total: 10, "unit price": 3 }
+    Assert.equals(differencesOf(() => Assert.equals(actual as unknown, expected)), [
+      "Differences:",
+      "  .customer.name: missing, expected (\"Ann\")",
+      "  .customer.tags[0]: actual (\"a\") !== expected (\"b\")",
+      "  .total: actual (\"10\" : string) !== expected (10 : number)",
+      "  [\"unit price\"]: actual (2) !== expected (3)",
+      "  .extra: unexpected (true)"
+    ], "equalsDifferences: nested objects")
+
+    // Flat arrays of primitives keep the single line message
+    Assert.equals(messageOf(() => Assert.equals([1, 2], [1, 3])), "Array value mismatch at index 1: actual (2) !== expected (3)",
+      "equalsDifferences: flat arrays")
+
+    // Large values are shortened in the first line, and the list is limited
+    const big = Array.from({ length: 30 }, (_, i) => ({ i }))
+    const lines = messageOf(() => Assert.equals({ rows: big }, { rows: big.map(row => ({ i: row.i + 1 })) })).split("\n")
+    Assert.isTrue(lines[0].length < 250 && lines[0].indexOf("...) !== expected (") !== -1,
+      "equalsDifferences: large values are shortened")
+    Assert.equals(lines.length, 13, "equalsDifferences: at most 10 differences are listed")
+    Assert.equals(lines[12], "  ... and 20 more", "equalsDifferences: number of differences not listed")
+
+    // Circular references don't loop forever
+    const circular: Record<string, unknown> = { a: 1 }
+    circular.self = circular
+    Assert.equals(differencesOf(() => Assert.equals([circular], [{ a: 2, self: {} }])).length, 2,
+      "equalsDifferences: circular references")
+
+    // Multi-line strings: line diff with one line of context
+    Assert.equals(differencesOf(() => Assert.equals("a\nb\nc\nd\ne", "a\nb\nx\nd\ne")), [
+      "Differences (- expected, + actual):",
+      "    ...",
+      "    b",
+      "  - x",
+      "  + c",
+      "    d",
+      "    ..."
+    ], "equalsDifferences: multi-line strings")
+    Assert.equals(differencesOf(() => Assert.equals({ text: "a\nb" }, { text: "a\nc\nb" })), [
+      "Differences:",
+      "  .text: lines differ (- expected, + actual)",
+      "      a",
+      "    - c",
+      "      b"
+    ], "equalsDifferences: multi-line string property")
+  }
+
+  /** Test the deep equality of equals and notEquals: key order, special types, NaN, -0, sparse arrays and cycles. */
+  public static deepEquality(): void {
+    // Key order doesn't matter, at any depth
+    Assert.equals({ a: 1, b: 2 }, { b: 2, a: 1 }, "deepEquality: key order")
+    Assert.equals([{ x: { a: 1, b: [1, 2] } }], [{ x: { b: [1, 2], a: 1 } }], "deepEquality: nested key order")
+
+    // undefined properties don't vanish
+    Assert.notEquals({ a: undefined } as object, {}, "deepEquality: undefined property vs missing property")
+    Assert.throws(() => Assert.equals([{ a: 1, b: undefined }], [{ a: 1 }]), AssertionError,
+      "Array object value mismatch at index 0: actual ({\"a\":1}) !== expected ({\"a\":1})\n" +
+      "Differences:\n  [0].b: unexpected (undefined)",
+      "deepEquality: undefined property in array element")
+
+    // NaN, -0
+    Assert.equals(NaN, NaN, "deepEquality: NaN equals NaN")
+    Assert.equals([NaN], [NaN], "deepEquality: NaN in arrays")
+    Assert.notEquals({ a: NaN }, { a: null } as unknown as { a: number }, "deepEquality: NaN is not null")
+    Assert.throws(() => Assert.equals(-0, 0), AssertionError,
+      "Assertion failed: actual (-0 : number) !== expected (0 : number)", "deepEquality: -0 is not 0")
+    Assert.notEquals([-0], [0], "deepEquality: -0 in arrays")
+
+    // Dates and regular expressions
+    Assert.equals(new Date(2025, 0, 1), new Date(2025, 0, 1), "deepEquality: same dates")
+    Assert.notEquals(new Date(2025, 0, 1), new Date(2025, 0, 2), "deepEquality: different dates")
+    Assert.notEquals({ d: new Date(0) } as object, { d: {} }, "deepEquality: date vs object")
+    Assert.equals(/a+/g, /a+/g, "deepEquality: same regular expressions")
+    Assert.notEquals(/a+/g, /a+/i, "deepEquality: different flags")
+
+    // Maps and Sets, regardless of the order of their entries
+    Assert.equals(new Map([["a", 1], ["b", 2]]), new Map([["b", 2], ["a", 1]]), "deepEquality: same maps")
+    Assert.throws(() => Assert.equals(new Map([["a", 1]]), new Map([["a", 2]])), AssertionError,
+      "Assertion failed: actual (Map {\"a\" => 1}) !== expected (Map {\"a\" => 2})", "deepEquality: different maps")
+    Assert.equals(new Set([1, 2, { x: 1 }]), new Set([{ x: 1 }, 2, 1]), "deepEquality: same sets")
+    Assert.notEquals(new Set([{ x: 1 }, { x: 1 }]), new Set([{ x: 1 }, { x: 2 }]), "deepEquality: each member matches once")
+    Assert.notEquals(new Set([1]) as unknown, new Map([[1, 1]]), "deepEquality: set vs map")
+
+    // Sparse arrays
+    const sparse = [1, , 3]
+    Assert.equals(sparse, [1, , 3], "deepEquality: same sparse arrays")
+    Assert.throws(() => Assert.equals(sparse, [1, undefined, 3]), AssertionError,
+      "Array value mismatch at index 1: actual (<empty>) !== expected (undefined)", "deepEquality: hole vs undefined")
+    Assert.throws(() => Assert.equals(new Array(3), []), AssertionError,
+      "Array length mismatch: actual (3) !== expected (0)", "deepEquality: length of an array of holes")
+    Assert.throws(() => Assert.equals([1, ,], [1]), AssertionError,
+      "Array length mismatch: actual (2) !== expected (1)", "deepEquality: trailing hole")
+    Assert.throws(() => Assert.equals({ a: new Array(2) }, { a: [] }), AssertionError,
+      "Assertion failed: actual ({\"a\":[null,null]}) !== expected ({\"a\":[]})\nDifferences:\n  .a.length: actual (2) !== expected (0)",
+      "deepEquality: nested array of holes")
+    Assert.throws(() => Assert.sameMembers([[, ]], [[]]), AssertionError, undefined, "deepEquality: holes in members")
+
+    // Boxed primitives, errors and prototypes
+    Assert.equals(new Number(1), new Number(1), "deepEquality: same boxed numbers")
+    Assert.throws(() => Assert.equals(new Number(1), new Number(2)), AssertionError,
+      "Assertion failed: actual (1) !== expected (2)", "deepEquality: different boxed numbers")
+    Assert.throws(() => Assert.equals({ s: new String("a") }, { s: new String("b") }), AssertionError,
+      "Assertion failed: actual ({\"s\":\"a\"}) !== expected ({\"s\":\"b\"})\nDifferences:\n  .s: actual (\"a\") !== expected (\"b\")",
+      "deepEquality: different boxed strings")
+    Assert.notEquals(new Boolean(true), new Boolean(false), "deepEquality: different boxed booleans")
+    Assert.equals(new TypeError("Bad"), new TypeError("Bad"), "deepEquality: same errors")
+    Assert.throws(() => Assert.equals(new TypeError("a"), new TypeError("b")), AssertionError,
+      "Assertion failed: actual ({}) !== expected ({})\nDifferences:\n  (root): actual (TypeError: a) !== expected (TypeError: b)",
+      "deepEquality: errors with different messages")
+    Assert.notEquals(new Error("a"), new RangeError("a"), "deepEquality: errors of different classes")
+    class Point { constructor(public x: number) { } }
+    Assert.equals(new Point(1), new Point(1), "deepEquality: same class instances")
+    Assert.throws(() => Assert.equals(new Point(1), { x: 1 }), AssertionError,
+      "Assertion failed: actual ({\"x\":1}) !== expected ({\"x\":1})\nDifferences:\n  (root): different prototypes, actual (Point) !== expected (Object)",
+      "deepEquality: class instance vs plain object")
+    Assert.matchesObject(new Point(1), { x: 1 }, "deepEquality: partial matching ignores prototypes")
+    Assert.throws(() => Assert.equals(Object.assign([1], { x: 1 }), [1]), AssertionError,
+      "Assertion failed: actual ([1]) !== expected ([1])\nDifferences:\n  .x: unexpected (1)",
+      "deepEquality: arrays with different properties")
+    class Row<T> extends Array<T> { }
+    Assert.throws(() => Assert.equals(Row.from([1]), [1]), AssertionError,
+      "Assertion failed: actual ([1]) !== expected ([1])\nDifferences:\n  (root): different prototypes, actual (Row) !== expected (Array)",
+      "deepEquality: array subclass vs plain array")
+
+    // Circular references
+    const a: Record<string, unknown> = { name: "a" }
+    a.self = a
+    const b: Record<string, unknown> = { name: "a" }
+    b.self = b
+    Assert.equals(a, b, "deepEquality: equal circular structures")
+    const c: Record<string, unknown> = { name: "c" }
+    c.self = c
+    Assert.notEquals(a, c, "deepEquality: different circular structures")
+  }
+
+  /** Test Assert.closeTo and its alias approxEquals: tolerances, arrays and 2D arrays, failure messages. */
+  public static closeTo(): void {
+    // Numbers, default and custom tolerances
+    Assert.closeTo(0.1 + 0.2, 0.3, undefined, "closeTo: floating point sum")
+    Assert.closeTo(10.004, 10, 0.005, "closeTo: absolute tolerance")
+    Assert.closeTo(1010, 1000, { relative: 0.01 }, "closeTo: relative tolerance")
+    Assert.closeTo(NaN, NaN, 0, "closeTo: NaN")
+    Assert.closeTo(Infinity, Infinity, 0, "closeTo: Infinity")
+    Assert.approxEquals(1e15 + 0.1, 1e15, undefined, "approxEquals: relative default tolerance")
+    Assert.throws(() => Assert.closeTo(1.1, 1, 0.05, "Total"), AssertionError,
+      "Total: Expected (1.1) to be close to (1), delta (0.10000000000000009) > tolerance (0.05)",
+      "closeTo: reports the delta and the tolerance")
+    Assert.throws(() => Assert.closeTo(1100, 1000, { absolute: 1, relative: 0.05 }), AssertionError,
+      "Expected (1100) to be close to (1000), delta (100) > tolerance (55)",
+      "closeTo: the greatest of the tolerances")
+    Assert.throws(() => Assert.approxEquals(Infinity, -Infinity), AssertionError,
+      "Expected (Infinity) to be close to (-Infinity), infinite and NaN values are only close to themselves",
+      "approxEquals: infinite values")
+    Assert.throws(() => Assert.closeTo(1, 1, -1), AssertionError, "Tolerance must be non-negative numbers: (-1)",
+      "closeTo: invalid tolerance")
+    Assert.throws(() => Assert.closeTo(1, [1]), AssertionError,
+      "Expected two numbers or two arrays, but got (1 : number) and ([1] : array)", "closeTo: number vs array")
+
+    // Arrays and 2D arrays of range values
+    Assert.closeTo([0.1 + 0.2, 1], [0.3, 1], undefined, "closeTo: arrays")
+    Assert.closeTo([["Total", 0.1 + 0.2], ["", true]], [["Total", 0.3], ["", true]], 1e-6, "closeTo: 2D arrays")
+    Assert.throws(() => Assert.closeTo([[1, 2], [3, "a"], [5]], [[1, 2.5], [3, "b"], [5, 6]], 0.1), AssertionError,
+      "Arrays are not close: 3 value(s) differ\n" +
+      "Differences:\n" +
+      "  [0][1]: actual (2) !== expected (2.5), delta (0.5) > tolerance (0.1)\n" +
+      "  [1][1]: actual (\"a\" : string) !== expected (\"b\" : string)\n" +
+      "  [2]: length mismatch, actual (1) !== expected (2)",
+      "closeTo: element-wise differences")
+    Assert.throws(() => Assert.closeTo([1, 2], [1]), AssertionError, "Array length mismatch: actual (2) !== expected (1)",
+      "closeTo: arrays of different length")
+
+    // Structured error
+    try {
+      Assert.closeTo(2, 1, 0.5, "Structured")
+      Assert.fail("closeTo: did not throw")
+    } catch (e) {
+      const error = e as AssertionError
+      Assert.equals([error.actual, error.expected, error.operator, error.userMessage], [2, 1, "closeTo", "Structured"],
+        "closeTo: structured error")
+    }
+  }
+
+  /** Test the range assertions: dimensions, cell by cell comparison with addresses, sub-blocks and empty cells. */
+  public static rangeAssertions(): void {
+    // Dimensions
+    Assert.hasDimensions([[1, 2, 3], [4, 5, 6]], 2, 3, "hasDimensions: 2 x 3")
+    Assert.hasDimensions([], 0, 0, "hasDimensions: empty")
+    Assert.throws(() => Assert.hasDimensions([[1, 2]], 2, 2, "Size"), AssertionError,
+      "Size: Expected dimensions (2 x 2), but got (1 x 2)", "hasDimensions: rows mismatch")
+    Assert.throws(() => Assert.hasDimensions([[1, 2], [3]], 2, 2), AssertionError,
+      "Expected dimensions (2 x 2), but row 2 has 1 column(s)", "hasDimensions: jagged array")
+
+    // Cell by cell, with the addresses from the origin and the grid of the mismatching region
+    const expected = [["Item", "Total"], ["Apples", 10]]
+    Assert.rangeEquals([["Item", "Total"], ["Apples", 10]], expected, {}, "rangeEquals: equal values")
+    Assert.throws(() => Assert.rangeEquals([["Item", "Total"], ["Apples", 12]], expected, { origin: "Sheet1!B2:C3" }),
+      AssertionError,
+      "Range values mismatch in 1 cell(s):\n" +
+      "  C3: expected 10, got 12\n" +
+      "Mismatching region C3 (actual !== expected):\n" +
+      "     C\n" +
+      "  3  12 !== 10",
+      "rangeEquals: cell address from the origin")
+    Assert.throws(() => Assert.rangeEquals(
+      [["a", 1, 2, 3], ["b", 4, "", 6], ["c", 7, 8, 9]],
+      [["a", 1, 2, 3], ["B", 4, null, 6], ["c", 7, 8, 10]]
+    ), AssertionError,
+      "Range values mismatch in 2 cell(s):\n" +
+      "  A2: expected \"B\", got \"b\"\n" +
+      "  D3: expected 10, got 9\n" +
+      "Mismatching region A2:D3 (actual !== expected):\n" +
+      "     A            B  C   D\n" +
+      "  2  \"b\" !== \"B\"  4  \"\"  6\n" +
+      "  3  \"c\"          7  8   9 !== 10",
+      "rangeEquals: grid of the mismatching region")
+    Assert.throws(() => Assert.rangeEquals([[1, 2]], [[1, 2], [3, 4]]), AssertionError,
+      "Range dimensions mismatch: expected (2 x 2), but got (1 x 2)", "rangeEquals: dimensions are checked first")
+    Assert.throws(() => Assert.rangeEquals([[1]], [[1]], { origin: "1A" }), AssertionError,
+      "Invalid cell address (\"1A\")", "rangeEquals: invalid origin")
+    Assert.throws(() => Assert.rangeEquals([[1]], [[2]], { origin: "Z1" }), AssertionError, undefined,
+      "rangeEquals: column after Z")
+    try {
+      Assert.rangeEquals([[1]], [[2]], { origin: "$AZ$9" })
+      Assert.fail("rangeEquals: did not throw")
+    } catch (e) {
+      Assert.contains((e as Error).message, "AZ9: expected 2, got 1", "rangeEquals: absolute address and two letters column")
+    }
+
+    // Empty cells and tolerance
+    Assert.rangeEquals([["", 1]], [[null, 1]], {}, "rangeEquals: empty string is an empty cell")
+    Assert.rangeEquals([[""]], [[undefined]], {}, "rangeEquals: undefined is an empty cell")
+    Assert.throws(() => Assert.rangeEquals([[""]], [[null]], { strictEmpty: true }), AssertionError, undefined,
+      "rangeEquals: strict empty cells")
+    Assert.throws(() => Assert.rangeEquals([[0]], [[""]]), AssertionError, undefined, "rangeEquals: 0 is not empty")
+    Assert.rangeEquals([[0.1 + 0.2]], [[0.3]], { tolerance: 1e-9 }, "rangeEquals: tolerance")
+    Assert.throws(() => Assert.rangeEquals([[0.1 + 0.2]], [[0.3]]), AssertionError, undefined,
+      "rangeEquals: numbers are strict without tolerance")
+
+    // Sub-range
+    const values = [[1, 2, 3], [4, 5, 6], [7, 8, 9]]
+    Assert.subRangeEquals(values, [[5, 6], [8, 9]], "B2", {}, "subRangeEquals: bottom right block")
+    Assert.subRangeEquals(values, [[5]], "D4", { origin: "C3" }, "subRangeEquals: relative to the origin")
+    Assert.throws(() => Assert.subRangeEquals(values, [[5, 7]], "B2"), AssertionError,
+      "Range values mismatch in 1 cell(s):\n" +
+      "  C2: expected 7, got 6\n" +
+      "Mismatching region C2 (actual !== expected):\n" +
+      "     C\n" +
+      "  2  6 !== 7",
+      "subRangeEquals: mismatching cell")
+    Assert.throws(() => Assert.subRangeEquals(values, [[6, 0]], "C2"), AssertionError,
+      "Sub-range C2:D2 is out of the actual range A1:C3", "subRangeEquals: out of the actual range")
+  }
+
+  /** Test the comparison assertions on numbers, strings and Dates, and values which cannot be compared. */
+  public static comparisons(): void {
+    const jan1 = new Date(Date.UTC(2025, 0, 1))
+    const jan2 = new Date(Date.UTC(2025, 0, 2))
+
+    // Positive
+    Assert.greaterThan(5, 3, "greaterThan: numbers")
+    Assert.greaterThan("b", "a", "greaterThan: strings")
+    Assert.greaterThan(jan2, jan1, "greaterThan: Dates")
+    Assert.greaterThanOrEqual(3, 3, "greaterThanOrEqual: equal numbers")
+    Assert.greaterThanOrEqual(new Date(jan1.getTime()), jan1, "greaterThanOrEqual: equal Dates")
+    Assert.lessThan(-1, 0, "lessThan: numbers")
+    Assert.lessThan("B", "a", "lessThan: code unit order")
+    Assert.lessThanOrEqual("a", "a", "lessThanOrEqual: equal strings")
+    Assert.inRange(1, 1, 10, "inRange: lower bound included")
+    Assert.inRange(10, 1, 10, "inRange: upper bound included")
+    Assert.inRange(jan1, jan1, jan2, "inRange: Dates")
+
+    // Negative: both operands in the message
+    Assert.throws(() => Assert.greaterThan(3, 5, "Count"), AssertionError,
+      "Count: Expected (3) to be greater than (5)", "greaterThan: less")
+    Assert.throws(() => Assert.greaterThan(5, 5), AssertionError,
+      "Expected (5) to be greater than (5)", "greaterThan: equal")
+    Assert.throws(() => Assert.greaterThanOrEqual("a", "b"), AssertionError,
+      "Expected (\"a\") to be greater than or equal to (\"b\")", "greaterThanOrEqual: strings")
+    Assert.throws(() => Assert.lessThan(jan2, jan1), AssertionError,
+      "Expected (\"2025-01-02T00:00:00.000Z\") to be less than (\"2025-01-01T00:00:00.000Z\")", "lessThan: Dates")
+    Assert.throws(() => Assert.lessThanOrEqual(2, 1), AssertionError,
+      "Expected (2) to be less than or equal to (1)", "lessThanOrEqual: greater")
+    Assert.throws(() => Assert.inRange(12, 1, 10), AssertionError,
+      "Expected (12) to be in range [1, 10]", "inRange: above")
+    Assert.throws(() => Assert.inRange(0, 1, 10), AssertionError, undefined, "inRange: below")
+
+    // Values which cannot be compared
+    Assert.throws(() => Assert.greaterThan(5, "3" as unknown as number), AssertionError,
+      "Cannot compare (5 : number) with (\"3\" : string), expected two numbers, strings or Dates",
+      "greaterThan: different kinds")
+    Assert.throws(() => Assert.lessThan(null as unknown as number, 1), AssertionError, undefined, "lessThan: null")
+    Assert.throws(() => Assert.greaterThanOrEqual(NaN, 1), AssertionError,
+      "Cannot compare (NaN) with (1), NaN and invalid Dates have no order", "greaterThanOrEqual: NaN")
+    Assert.throws(() => Assert.inRange(new Date("invalid"), jan1, jan2), AssertionError, undefined,
+      "inRange: invalid Date")
+
+    // Structured error
+    try {
+      Assert.inRange(12, 1, 10)
+      Assert.fail("comparisons: did not throw")
+    } catch (e) {
+      const error = e as AssertionError
+      Assert.equals([error.actual, error.expected, error.operator], [12, [1, 10], "inRange"], "comparisons: structured error")
+    }
+  }
+
+  /** Test the string assertions: regular expressions, prefix, suffix, substring and equality ignoring case or whitespace. */
+  public static stringAssertions(): void {
+    // matches, doesNotMatch
+    Assert.matches("Sheet1!A1:C10", /^Sheet1!A1:C\d+$/, "matches: address")
+    const global = /\d/g
+    Assert.matches("a1", global, "matches: g flag, first call")
+    Assert.matches("a1", global, "matches: g flag, lastIndex is ignored")
+    Assert.throws(() => Assert.matches("abc", /^\d+$/, "Digits"), AssertionError,
+      "Digits: Expected (\"abc\") to match (/^\\d+$/)", "matches: no match")
+    Assert.doesNotMatch("=SUM(A1:A3)", /#REF!/, "doesNotMatch: no broken reference")
+    Assert.throws(() => Assert.doesNotMatch("=A1+#REF!", /#REF!/g), AssertionError,
+      "Expected (\"=A1+#REF!\") not to match (/#REF!/g), but matched (\"#REF!\") at index 4", "doesNotMatch: match")
+    Assert.throws(() => Assert.matches(5 as unknown as string, /5/), AssertionError,
+      "Expected a string, but got (5 : number)", "matches: not a string")
+
+    // startsWith, endsWith, containsText
+    Assert.startsWith("Sheet1!A1", "Sheet1!", {}, "startsWith: prefix")
+    Assert.startsWith("=sum(A1:A3)", "=SUM(", { ignoreCase: true }, "startsWith: ignoring case")
+    Assert.throws(() => Assert.startsWith("Sheet2!A1", "Sheet1!"), AssertionError,
+      "Expected (\"Sheet2!A1\") to start with (\"Sheet1!\"), first difference at index 5", "startsWith: difference")
+    Assert.throws(() => Assert.startsWith("ab", "abc"), AssertionError, undefined, "startsWith: prefix too long")
+    Assert.endsWith("report.xlsx", ".xlsx", {}, "endsWith: suffix")
+    Assert.endsWith("Total: 10 EUR", "10eur", { ignoreCase: true, ignoreWhitespace: true }, "endsWith: ignoring case and whitespace")
+    Assert.throws(() => Assert.endsWith("report.csv", ".xlsx"), AssertionError,
+      "Expected (\"report.csv\") to end with (\".xlsx\")", "endsWith: different suffix")
+    Assert.throws(() => Assert.endsWith("x", "xx"), AssertionError, undefined, "endsWith: suffix too long")
+    Assert.containsText("Total Amount", "amount", { ignoreCase: true }, "containsText: ignoring case")
+    Assert.throws(() => Assert.containsText("Total Amount", "amount"), AssertionError,
+      "Expected (\"Total Amount\") to contain (\"amount\")", "containsText: case sensitive by default")
+    Assert.throws(() => Assert.containsText("Total", "SUM", { ignoreCase: true }), AssertionError,
+      "Expected (\"Total\") to contain (\"SUM\") (ignoring case)", "containsText: not found")
+
+    // stringEquals, with the first differing index
+    Assert.stringEquals("= SUM( a1 )", "=sum(A1)", { ignoreCase: true, ignoreWhitespace: true }, "stringEquals: formula")
+    Assert.stringEquals("Net\tTotal", "Net Total", { ignoreWhitespace: true }, "stringEquals: ignoring whitespace")
+    Assert.throws(() => Assert.stringEquals("Sheet1!A1:C10", "Sheet1!A1:C11", {}, "Address"), AssertionError,
+      "Address: Expected strings to be equal: actual (\"Sheet1!A1:C10\") !== expected (\"Sheet1!A1:C11\")\n" +
+      "First difference at index 12: actual (\"...eet1!A1:C10\") !== expected (\"...eet1!A1:C11\")",
+      "stringEquals: first difference")
+    Assert.throws(() => Assert.stringEquals("=SUM(A1)", "=sum(A2)", { ignoreCase: true }), AssertionError,
+      "Expected strings to be equal (ignoring case): actual (\"=SUM(A1)\") !== expected (\"=sum(A2)\")\n" +
+      "First difference at index 6: actual (\"=sum(a1)\") !== expected (\"=sum(a2)\")",
+      "stringEquals: compared strings")
+    Assert.throws(() => Assert.stringEquals("abc", "abcdef"), AssertionError,
+      "Expected strings to be equal: actual (\"abc\") !== expected (\"abcdef\")\n" +
+      "First difference at index 3: actual (\"abc\" (end of string)) !== expected (\"abcdef\")",
+      "stringEquals: end of string")
+
+    // equals on long strings shows the first difference
+    const long = "x".repeat(90)
+    Assert.throws(() => Assert.equals(`${long}a\tb`, `${long}a b`), AssertionError,
+      `Assertion failed: actual ("${long}a\tb" : string) !== expected ("${long}a b" : string)\n` +
+      "First difference at index 91: actual (\"...xxxxxxxxxa\\tb\") !== expected (\"...xxxxxxxxxa b\")",
+      "equals: first difference of long strings")
+  }
+
+  /** Test the message matchers, the error predicate, the returned error and non-Error values of throws and rejects. */
+  public static async throwsMatchers(): Promise<void> {
+    class HttpError extends Error {
+      constructor(message: string, public status: number) {
+        super(message)
+        this.name = "HttpError"
+      }
+    }
+    const notFound = () => { throw new HttpError("Resource not found: /items", 404) }
+
+    // Message as a regular expression or a predicate
+    Assert.throws(notFound, HttpError, /not found/i, "throws: message matching a regular expression")
+    Assert.throws(notFound, undefined, msg => msg.indexOf("/items") !== -1, "throws: message predicate")
+    Assert.throws(() => Assert.throws(notFound, HttpError, /^Forbidden/), AssertionError,
+      "Expected message matching /^Forbidden/, but got \"Resource not found: /items\".", "throws: message not matching")
+    Assert.throws(() => Assert.throws(notFound, undefined, msg => msg === ""), AssertionError,
+      "Expected message to satisfy the predicate, but got \"Resource not found: /items\".", "throws: message predicate fails")
+
+    // Predicate over the whole error, and the returned error
+    const error = Assert.throws(notFound, HttpError, undefined, "throws: error predicate", { predicate: e => e.status === 404 })
+    Assert.equals(error.status, 404, "throws: returns the error, typed by its constructor")
+    Assert.throws(() => Assert.throws(notFound, HttpError, undefined, "Status", { predicate: e => e.status === 500 }),
+      AssertionError, "Status: Expected error to satisfy the predicate, but got (HttpError: Resource not found: /items).",
+      "throws: error predicate fails")
+    Assert.throws(() => Assert.throws(notFound, HttpError, undefined, "", { predicate: e => { Assert.equals(e.status, 500); return true } }),
+      AssertionError, "Assertion failed: actual (404 : number) !== expected (500 : number)",
+      "throws: assertions in the predicate are thrown as is")
+
+    // Non-Error values
+    Assert.throws(() => Assert.throws(() => { throw "Boom!" }), AssertionError,
+      "Thrown value is not an Error instance: (\"Boom!\")", "throws: non-Error values fail by default")
+    const thrown = Assert.throws<unknown>(() => { throw "Boom!" }, undefined, "Boom!", "throws: allowed non-Error value",
+      { allowNonError: true })
+    Assert.equals(thrown, "Boom!", "throws: returns the non-Error value")
+    Assert.throws(() => { throw { code: 42 } }, undefined, /"code":42/, "throws: message of an object", { allowNonError: true })
+    Assert.throws(() => Assert.throws(() => { throw 42 }, TypeError, undefined, "", { allowNonError: true }), AssertionError,
+      "Expected error type TypeError, but got number.", "throws: type of a non-Error value")
+
+    // rejects
+    const rejected = await Assert.rejects(async () => notFound(), HttpError, /not found/, "rejects: message matching",
+      { predicate: e => e.status === 404 })
+    Assert.equals(rejected.status, 404, "rejects: returns the rejection value")
+    Assert.equals(await Assert.rejects<unknown>(Promise.reject("Nope"), undefined, "Nope", "", { allowNonError: true }), "Nope",
+      "rejects: non-Error rejection value")
+    await Assert.rejects(() => Assert.rejects(async () => notFound(), undefined, /^x/), AssertionError,
+      "Expected message matching /^x/, but got \"Resource not found: /items\".", "rejects: message not matching")
+  }
+
+  /** Test matchesObject, hasProperty and the asymmetric matchers nested in equals. */
+  public static partialMatching(): void {
+    const customer = { id: 7, name: "Ann", address: { city: "Paris", zip: "75001" }, orders: [{ id: 1, total: 9.5 }] }
+
+    // Asymmetric matchers in equals
+    Assert.equals(customer.address, { city: Assert.any(String), zip: Assert.stringMatching(/^\d{5}$/) }, "any: nested")
+    Assert.equals([1, "a", new Date(), null], [Assert.any(Number), Assert.any(String), Assert.any(Date), null], "any: array")
+    Assert.equals({ id: 7, notes: [] }, { id: 7, notes: Assert.anything() }, "anything: nested")
+    Assert.equals(customer.orders, [Assert.objectContaining({ id: 1 })], "objectContaining: nested")
+    Assert.throws(() => Assert.equals({ id: 7, name: "x" }, { id: Assert.any(Number), name: Assert.stringMatching(/^\d/) }),
+      AssertionError, "Assertion failed: actual ({\"id\":7,\"name\":\"x\"}) !== expected ({\"id\":\"Any<Number>\",\"name\":\"StringMatching</^\\\\d/>\"})\n" +
+      "Differences:\n  .name: actual (\"x\") does not match StringMatching</^\\d/>", "stringMatching: no match")
+    Assert.throws(() => Assert.equals([1, 2], [Assert.any(String), 2]), AssertionError,
+      "Array value mismatch at index 0: actual (1) does not match Any<String>", "any: array element")
+    Assert.throws(() => Assert.equals(NaN, Assert.any(Number)), AssertionError,
+      "Assertion failed: actual (NaN) does not match Any<Number>", "any: NaN is not a number")
+    Assert.throws(() => Assert.equals(null, Assert.anything()), AssertionError,
+      "Assertion failed: actual (null) does not match Anything", "anything: null")
+    Assert.throws(() => Assert.notEquals({ a: 1 }, { a: Assert.any(Number) }), AssertionError, undefined, "notEquals: matcher")
+
+    // matchesObject
+    Assert.matchesObject(customer, { name: "Ann", address: { city: "Paris" } }, "matchesObject: subset")
+    Assert.matchesObject(customer, { orders: [{ total: Assert.any(Number) }] }, "matchesObject: arrays of objects")
+    Assert.throws(() => Assert.matchesObject(customer, { name: "Bob", address: { city: "Lyon" }, age: 30 }, "Customer"),
+      AssertionError, "Customer: Expected ({\"id\":7,\"name\":\"Ann\",\"address\":{\"city\":\"Paris\",\"zip\":\"75001\"},\"orders\":[{\"id\"...) " +
+      "to match object ({\"name\":\"Bob\",\"address\":{\"city\":\"Lyon\"},\"age\":30})\nDifferences:\n" +
+      "  .name: actual (\"Ann\") !== expected (\"Bob\")\n  .address.city: actual (\"Paris\") !== expected (\"Lyon\")\n" +
+      "  .age: missing, expected (30)", "matchesObject: differences")
+    Assert.throws(() => Assert.matchesObject({ items: [1, 2] }, { items: [1] }), AssertionError,
+      "Expected ({\"items\":[1,2]}) to match object ({\"items\":[1]})\nDifferences:\n  .items[1]: unexpected (2)",
+      "matchesObject: arrays must have the same length")
+    Assert.throws(() => Assert.matchesObject(5, { a: 1 }), AssertionError,
+      "Expected an object, but got (5 : number)", "matchesObject: not an object")
+    const node: Record<string, unknown> = { name: "a", id: 1 }
+    node.self = node
+    const sameShape: Record<string, unknown> = { name: "a" }
+    sameShape.self = sameShape
+    const other: Record<string, unknown> = { name: "c" }
+    other.self = other
+    Assert.matchesObject(node, node, "matchesObject: circular, same object")
+    Assert.matchesObject(node, sameShape, "matchesObject: circular subset")
+    Assert.equals(node, Assert.objectContaining(sameShape), "objectContaining: circular subset")
+    Assert.throws(() => Assert.matchesObject(node, other), AssertionError,
+      "Expected ([object Object]) to match object ([object Object])\nDifferences:\n  .name: actual (\"a\") !== expected (\"c\")",
+      "matchesObject: circular difference")
+
+    // hasProperty
+    Assert.hasProperty(customer, "address.city", "Paris", "hasProperty: dotted path")
+    Assert.hasProperty(customer, "orders[0].total", undefined, "hasProperty: bracket index, no value")
+    Assert.hasProperty(customer, "orders.0.id", Assert.any(Number), "hasProperty: matcher")
+    Assert.throws(() => Assert.hasProperty(customer, "orders.1.id"), AssertionError,
+      "Property \"orders.1.id\" not found: \"orders\" has no property \"1\"", "hasProperty: missing segment")
+    Assert.throws(() => Assert.hasProperty({ a: { b: null } }, "a.b.c"), AssertionError,
+      "Property \"a.b.c\" not found: \"a.b\" is (null)", "hasProperty: null intermediate")
+    Assert.throws(() => Assert.hasProperty(customer, "address", { city: "Paris", zip: "75002" }, "Address"), AssertionError,
+      "Address: Expected property \"address\" to be ({\"city\":\"Paris\",\"zip\":\"75002\"}), but got ({\"city\":\"Paris\",\"zip\":\"75001\"})\n" +
+      "Differences:\n  .zip: actual (\"75001\") !== expected (\"75002\")", "hasProperty: value mismatch")
+  }
+
+  /** Test sameMembers, includesDeep, doesNotContain, hasLength, isEmpty, isNotEmpty and isSorted. */
+  public static collectionAssertions(): void {
+    // sameMembers
+    Assert.sameMembers([{ id: 2 }, { id: 1 }], [{ id: 1 }, { id: 2 }], "sameMembers: objects in any order")
+    Assert.sameMembers(new Set(["Data", "Config"]), ["Config", "Data"], "sameMembers: Set and array")
+    Assert.sameMembers([1, "a"], [Assert.any(String), 1], "sameMembers: matcher")
+    Assert.throws(() => Assert.sameMembers([1, 1, 2], [1, 2, 2], "Ids"), AssertionError,
+      "Ids: Expected ([1,1,2]) to have the same members as ([1,2,2])\nMissing: (2)\nUnexpected: (1)", "sameMembers: duplicates")
+    Assert.throws(() => Assert.sameMembers(new Map([["a", 1]]), new Map([["a", 2]])), AssertionError,
+      "Expected (Map {\"a\" => 1}) to have the same members as (Map {\"a\" => 2})\nMissing: ([\"a\",2])\nUnexpected: ([\"a\",1])",
+      "sameMembers: Map entries")
+    Assert.throws(() => Assert.sameMembers(5 as unknown as number[], [5]), AssertionError,
+      "Expected an array, string, Map or Set, but got (5 : number)", "sameMembers: not a collection")
+
+    // includesDeep, doesNotContain
+    Assert.includesDeep([{ id: 1 }, { id: 2 }], { id: 2 }, "includesDeep: object")
+    Assert.includesDeep(new Map([["row", [1, 2]]]), [1, 2], "includesDeep: Map value")
+    Assert.includesDeep("Sheet1!A1", "!A", "includesDeep: substring")
+    Assert.throws(() => Assert.includesDeep([{ id: 1 }], { id: 3 }), AssertionError,
+      "Expected ([{\"id\":1}]) to include ({\"id\":3})", "includesDeep: not found")
+    Assert.doesNotContain([[1, 2]], [2, 1], "doesNotContain: array")
+    Assert.throws(() => Assert.doesNotContain([{ id: 1 }, { id: 2 }], { id: 2 }), AssertionError,
+      "Expected ([{\"id\":1},{\"id\":2}]) not to contain ({\"id\":2}), but found it at index 1", "doesNotContain: found")
+    Assert.throws(() => Assert.doesNotContain(new Set([1]), 1), AssertionError,
+      "Expected (Set {1}) not to contain (1), but found it", "doesNotContain: Set")
+
+    // hasLength, isEmpty, isNotEmpty
+    Assert.hasLength("abc", 3, "hasLength: string")
+    Assert.hasLength(new Map([[1, 1]]), 1, "hasLength: Map")
+    Assert.throws(() => Assert.hasLength([1, 2], 3), AssertionError,
+      "Expected ([1,2]) to have length (3), but got (2)", "hasLength: array")
+    Assert.throws(() => Assert.hasLength(new Set([1]), 2), AssertionError,
+      "Expected (Set {1}) to have size (2), but got (1)", "hasLength: Set")
+    Assert.isEmpty(new Map(), "isEmpty: Map")
+    Assert.throws(() => Assert.isEmpty("ab"), AssertionError,
+      "Expected (\"ab\") to be empty, but got length (2)", "isEmpty: string")
+    Assert.isNotEmpty(new Set([0]), "isNotEmpty: Set")
+    Assert.throws(() => Assert.isNotEmpty([]), AssertionError, "Expected ([]) not to be empty", "isNotEmpty: array")
+
+    // isSorted
+    Assert.isSorted([1, 2, 2, 5], undefined, "isSorted: numbers")
+    Assert.isSorted("abc", undefined, "isSorted: characters")
+    Assert.isSorted([3, 2, 1], (a, b) => b - a, "isSorted: comparator")
+    Assert.throws(() => Assert.isSorted([1, 3, 2]), AssertionError,
+      "Expected ([1,3,2]) to be sorted, but (3) at index 1 is out of order with (2) at index 2", "isSorted: out of order")
+    Assert.throws(() => Assert.isSorted<unknown>([1, "a"]), AssertionError,
+      "Cannot compare (1 : number) with (\"a\" : string), expected two numbers, strings or Dates", "isSorted: mixed kinds")
+  }
+
+  /** Test custom assertions registered with extend, with satisfies, doesNotSatisfy and expect().toSatisfy. */
+  public static customAssertions(): void {
+    Assert.extend("isCostCentre", (code: string) => ({
+      pass: /^CC-\d{4}$/.test(code),
+      description: "to be a valid cost centre code (CC-nnnn)"
+    }))
+    Assert.extend("hasColumns", (row: unknown[], columns: number) => ({
+      pass: row.length === columns,
+      description: `to have ${columns} columns`,
+      expected: columns,
+      reason: `got ${row.length}`
+    }))
+
+    Assert.satisfies("CC-1234", "isCostCentre", [], "satisfies: valid code")
+    Assert.doesNotSatisfy("CC-12", "isCostCentre", [], "doesNotSatisfy: invalid code")
+    Assert.satisfies([1, 2, 3], "hasColumns", [3], "satisfies: arguments")
+    let error = Assert.throws(() => Assert.satisfies("CC-123", "isCostCentre", [], "Row 3"), AssertionError,
+      "Row 3: Expected (\"CC-123\") to be a valid cost centre code (CC-nnnn)", "satisfies: failure")
+    Assert.equals([error.actual, "expected" in error, error.operator, error.userMessage], ["CC-123", false, "isCostCentre", "Row 3"],
+      "satisfies: details")
+    error = Assert.throws(() => Assert.satisfies([1, 2], "hasColumns", [3]), AssertionError,
+      "Expected ([1,2]) to have 3 columns, got 2", "satisfies: reason")
+    Assert.equals(error.expected, 3, "satisfies: expected value")
+    error = Assert.throws(() => Assert.doesNotSatisfy("CC-1234", "isCostCentre"), AssertionError,
+      "Expected (\"CC-1234\") not to be a valid cost centre code (CC-nnnn)", "doesNotSatisfy: failure")
+    Assert.equals(error.operator, "not isCostCentre", "doesNotSatisfy: operator")
+    Assert.throws(() => Assert.satisfies(1, "isUnknown"), AssertionError,
+      "Unknown custom assertion \"isUnknown\", register it with Assert.extend", "satisfies: unknown assertion")
+    Assert.throws(() => Assert.extend("", () => ({ pass: true, description: "" })), Error,
+      "Invalid custom assertion name (\"\"), expected a non-empty string", "extend: empty name")
+
+    // Fluent style, with the same messages
+    expect("CC-1234").toSatisfy("isCostCentre")
+    expect([1, 2]).not.toSatisfy("hasColumns", 3)
+    Assert.throws(() => expect([1, 2], "Row 3").toSatisfy("hasColumns", 3), AssertionError,
+      "Row 3: Expected ([1,2]) to have 3 columns, got 2", "toSatisfy: failure")
+    Assert.throws(() => expect("CC-1234").not.toSatisfy("isCostCentre"), AssertionError,
+      "Expected (\"CC-1234\") not to be a valid cost centre code (CC-nnnn)", "not.toSatisfy: failure")
+  }
+
+  /** Test that soft assertions record every failure and throw a single aggregated error. */
+  public static soft(): void {
+    const row = ["INV-0041", 99.9, "CC-12", "Paris"]
+    Assert.soft(soft => {
+      soft.equals(row[3], "Paris")
+      soft.expect(row[1]).toBeCloseTo(99.9)
+    }, "soft: passing assertions")
+
+    const error = Assert.throws(() => Assert.soft(soft => {
+      soft.equals(row[0], "INV-0042", "Invoice")
+      soft.closeTo(row[1] as number, 99.9, 0.005, "Amount")
+      soft.expect(row[2], "Cost centre").toMatch(/^CC-\d{4}$/)
+      soft.expect(row[3]).not.toEqual("Paris")
+      soft.equals({ city: row[3] }, { city: "Lyon" })
+    }, "Row 3"), AssertionError,
+      "Row 3: 4 soft assertion(s) failed:\n" +
+      "  1) Invoice: Assertion failed: actual (\"INV-0041\" : string) !== expected (\"INV-0042\" : string)\n" +
+      "  2) Cost centre: Expected (\"CC-12\") to match (/^CC-\\d{4}$/)\n" +
+      "  3) Values should not be equal: (\"Paris\")\n" +
+      "  4) Assertion failed: actual ({\"city\":\"Paris\"}) !== expected ({\"city\":\"Lyon\"})\n" +
+      "     Differences:\n" +
+      "       .city: actual (\"Paris\") !== expected (\"Lyon\")",
+      "soft: aggregated report")
+    Assert.equals([error.operator, error.userMessage, error.failures.length], ["soft", "Row 3", 4], "soft: details")
+    Assert.equals(error.failures[1].operator, "matches", "soft: failures keep their details")
+
+    // Assert called directly ends the function, other errors are thrown as is
+    Assert.throws(() => Assert.soft(soft => {
+      soft.isTrue(false)
+      Assert.isNull(1)
+      soft.isTrue(false)
+    }), AssertionError, "2 soft assertion(s) failed:\n  1) Expected value to be truthy, but got (false)\n" +
+      "  2) Expected value to be null, but got (1)", "soft: AssertionError thrown by the function")
+    Assert.throws(() => Assert.soft(soft => {
+      soft.isTrue(false)
+      throw new TypeError("Unexpected")
+    }), TypeError, "Unexpected", "soft: other errors")
+    Assert.throws(() => Assert.soft((async () => { }) as unknown as () => void), AssertionError,
+      "1 soft assertion(s) failed:\n  1) Assert.soft() cannot wait for an asynchronous function, use Assert.softAsync() instead.",
+      "soft: asynchronous function")
+    Assert.throws(() => Assert.soft((async () => { throw new Error("Boom!") }) as unknown as () => void), AssertionError,
+      undefined, "soft: rejecting asynchronous function, without unhandled rejection")
+
+    // Only the public assertions are wrapped, keeping their overloads
+    Assert.soft(soft => {
+      soft.equals({ id: 7 }, { id: soft.any(Number) })
+      const error = soft.throws(() => { throw new RangeError("Out") }, RangeError)
+      soft.equals(error.message, "Out")
+      Assert.isFalse("deepEqual" in soft, "soft: private helpers are not exposed")
+      Assert.isFalse("extend" in soft, "soft: only assertions are exposed")
+    }, "soft: public assertions")
+  }
+
+  /** Test softAsync with asynchronous soft assertions. */
+  public static async softAsync(): Promise<void> {
+    await Assert.softAsync(async soft => {
+      await soft.rejects(Promise.reject(new Error("Not found")), Error, "Not found")
+    }, "softAsync: passing assertions")
+    const error = await Assert.rejects(() => Assert.softAsync(async soft => {
+      await soft.rejects(Promise.resolve(1), undefined, undefined, "Fetch")
+      await soft.expect(Promise.reject(new Error("Boom!"))).not.toReject()
+      soft.hasLength([1], 2)
+    }), AssertionError)
+    Assert.equals(error.failures.map(failure => failure.operator), ["rejects", "doesNotReject", "hasLength"],
+      "softAsync: all failures recorded")
+  }
+
+  /** Test that assertion failures carry actual, expected, operator and the user message, with the same message. */
+  public static structuredErrors(): void {
+    const catchError = (fn: () => void): AssertionError => {
+      try {
+        fn()
+      } catch (e) {
+        Assert.isInstanceOf(e, AssertionError, "structuredErrors: AssertionError expected")
+        return e as AssertionError
+      }
+      throw new Error("structuredErrors: the assertion did not throw")
+    }
+
+    // equals on primitives: the message is unchanged
+    let error = catchError(() => Assert.equals(1, 2, "Numbers"))
+    Assert.equals(error.message, "Numbers: Assertion failed: actual (1 : number) !== expected (2 : number)",
+      "structuredErrors: equals message")
+    Assert.equals(error.actual, 1, "structuredErrors: equals actual")
+    Assert.equals(error.expected, 2, "structuredErrors: equals expected")
+    Assert.equals(error.operator, "equals", "structuredErrors: equals operator")
+    Assert.equals(error.userMessage, "Numbers", "structuredErrors: equals userMessage")
+
+    // equals on arrays: the whole arrays, not the differing elements
+    error = catchError(() => Assert.equals([1, 2], [1, 3]))
+    Assert.equals(error.actual, [1, 2], "structuredErrors: array actual")
+    Assert.equals(error.expected, [1, 3], "structuredErrors: array expected")
+    Assert.equals(error.userMessage, "", "structuredErrors: no user message")
+
+    // An undefined actual value is still present
+    error = catchError(() => Assert.equals(undefined, null))
+    Assert.isTrue("actual" in error, "structuredErrors: undefined actual is present")
+    Assert.isUndefined(error.actual, "structuredErrors: undefined actual")
+
+    // Assertions without an expected value don't set it
+    error = catchError(() => Assert.isNotNull(null))
+    Assert.equals(error.operator, "isNotNull", "structuredErrors: isNotNull operator")
+    Assert.isFalse("expected" in error, "structuredErrors: isNotNull has no expected value")
+
+    error = catchError(() => Assert.contains([1, 2], 3))
+    Assert.equals([error.actual, error.expected, error.operator], [[1, 2], 3, "contains"],
+      "structuredErrors: contains")
+
+    error = catchError(() => Assert.isType(1, "string"))
+    Assert.equals([error.actual, error.expected, error.operator], ["number", "string", "isType"],
+      "structuredErrors: isType compares the types")
+
+    error = catchError(() => Assert.isInstanceOf({}, Date))
+    Assert.equals([error.expected, error.operator], ["Date", "isInstanceOf"], "structuredErrors: isInstanceOf")
+
+    error = catchError(() => Assert.throws(() => { throw new TypeError("Boom") }, TypeError, "Bang"))
+    Assert.equals([error.actual, error.expected, error.operator], ["Boom", "Bang", "throws"],
+      "structuredErrors: throws compares the messages")
+
+    error = catchError(() => Assert.fail())
+    Assert.equals([error.message, error.operator], ["Assertion failed", "fail"], "structuredErrors: fail")
+
+    // The runner copies the details into the error info
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    runner.exec("Fail", () => Assert.equals("a", "b", "Letters"))
+    const info = runner.getResults()[0].error!
+    Assert.equals([info.actual, info.expected, info.operator, info.userMessage], ["\"a\"", "\"b\"", "equals", "Letters"],
+      "structuredErrors: error info")
+  }
+
 }
 
 /** 
@@ -1159,6 +1977,103 @@ class AssertSafeStringifyTest {
   }
 }
 
+/**
+ * Test coverage for the fluent `expect` API: each matcher must fail with the same message and details as the
+ * corresponding `Assert` method.
+ */
+class ExpectTest {
+
+  /** Checks that both functions fail with the same message, operator and user message. */
+  private static sameFailure(fluent: () => void, assertion: () => void, label: string): void {
+    const actual = Assert.throws(fluent, AssertionError, undefined, `${label}: fluent style`)
+    const expected = Assert.throws(assertion, AssertionError, undefined, `${label}: Assert style`)
+    Assert.equals([actual.message, actual.operator, actual.userMessage], [expected.message, expected.operator, expected.userMessage], label)
+  }
+
+  /** Test that the matchers pass and fail as the corresponding Assert methods. */
+  public static matchers(): void {
+    expect(1 + 1).toEqual(2)
+    expect({ id: 7, name: "Ann" }).toEqual({ id: Assert.any(Number), name: "Ann" })
+    expect(0.1 + 0.2).toBeCloseTo(0.3)
+    expect("x").toBeTruthy()
+    expect(null).toBeNull()
+    expect(new Date()).toBeInstanceOf(Date)
+    expect(5).toBeInRange(1, 10)
+    expect([{ id: 1 }]).toContainEqual({ id: 1 })
+    expect(new Set([2, 1])).toHaveSameMembers([1, 2])
+    expect("=SUM(A1)").toStartWith("=sum", { ignoreCase: true })
+    expect({ a: { b: [1] } }).toHaveProperty("a.b[0]", 1)
+    expect([[1, 2], [3, 4]]).toHaveDimensions(2, 2)
+    expect(() => { throw new TypeError("Bad") }).toThrow(TypeError, "Bad")
+
+    ExpectTest.sameFailure(() => expect(1, "Totals").toEqual(2), () => Assert.equals(1, 2, "Totals"), "toEqual")
+    ExpectTest.sameFailure(() => expect(1.1).toBeCloseTo(1, 0.05), () => Assert.closeTo(1.1, 1, 0.05), "toBeCloseTo")
+    ExpectTest.sameFailure(() => expect(3).toBeGreaterThan(5), () => Assert.greaterThan(3, 5), "toBeGreaterThan")
+    ExpectTest.sameFailure(() => expect([1, 3, 2]).toBeSorted(), () => Assert.isSorted([1, 3, 2]), "toBeSorted")
+    ExpectTest.sameFailure(() => expect("abc").toMatch(/^\d+$/), () => Assert.matches("abc", /^\d+$/), "toMatch")
+    ExpectTest.sameFailure(() => expect({ a: 1 }).toMatchObject({ a: 2 }), () => Assert.matchesObject({ a: 1 }, { a: 2 }), "toMatchObject")
+    ExpectTest.sameFailure(() => expect([[1]]).toEqualRange([[2]]), () => Assert.rangeEquals([[1]], [[2]]), "toEqualRange")
+    ExpectTest.sameFailure(() => expect(() => 1).toThrow(), () => Assert.throws(() => 1), "toThrow")
+  }
+
+  /** Test that .not maps onto the opposite Assert methods, or fails with "Expected (...) not to ..." otherwise. */
+  public static negation(): void {
+    expect(1).not.toEqual(2)
+    expect(undefined).not.toBeDefined()
+    expect(5).not.toBeGreaterThan(5)
+    expect([1, 2]).not.toHaveLength(3)
+    expect("Total").not.toContainText("sum")
+    expect(() => 1).not.toThrow()
+    expect(1).not.not.toEqual(1)
+
+    ExpectTest.sameFailure(() => expect({ a: 1 }).not.toEqual({ a: 1 }), () => Assert.notEquals({ a: 1 }, { a: 1 }), "not.toEqual")
+    ExpectTest.sameFailure(() => expect(null).not.toBeNull(), () => Assert.isNotNull(null), "not.toBeNull")
+    ExpectTest.sameFailure(() => expect(5).not.toBeGreaterThan(3), () => Assert.lessThanOrEqual(5, 3), "not.toBeGreaterThan")
+    ExpectTest.sameFailure(() => expect([1]).not.toContainEqual(1), () => Assert.doesNotContain([1], 1), "not.toContainEqual")
+    ExpectTest.sameFailure(() => expect([]).not.toBeEmpty(), () => Assert.isNotEmpty([]), "not.toBeEmpty")
+
+    const error = Assert.throws(() => expect([1, 2], "Rows").not.toHaveLength(2), AssertionError,
+      "Rows: Expected ([1,2]) not to have length (2)", "not.toHaveLength: message")
+    Assert.equals([error.actual, error.expected, error.operator, error.userMessage], [[1, 2], 2, "not hasLength", "Rows"],
+      "not.toHaveLength: details")
+    Assert.throws(() => expect({ a: { b: 1 } }).not.toHaveProperty("a.b", 1), AssertionError,
+      "Expected ({\"a\":{\"b\":1}}) not to have property \"a.b\" (1)", "not.toHaveProperty")
+    Assert.throws(() => expect(5).not.toBeInRange(1, 10), AssertionError,
+      "Expected (5) not to be in range [1, 10]", "not.toBeInRange")
+    Assert.throws(() => expect(() => { throw new Error("Boom!") }).not.toThrow(), AssertionError,
+      undefined, "not.toThrow")
+
+    // Invalid operands fail the negation too
+    let invalid = Assert.throws(() => expect(42).not.toContainText("x"), AssertionError,
+      "Expected a string, but got (42 : number)", "not.toContainText: invalid operand")
+    Assert.equals(invalid.operator, "invalid containsText", "not.toContainText: operator of an invalid operand")
+    Assert.throws(() => expect(42).not.toStartWith("a"), AssertionError,
+      "Expected a string, but got (42 : number)", "not.toStartWith: invalid operand")
+    invalid = Assert.throws(() => expect([1, "a"]).not.toBeSorted(), AssertionError, undefined, "not.toBeSorted: invalid operand")
+    Assert.isTrue(invalid.message.indexOf("Cannot compare (1 : number) with (\"a\" : string)") === 0,
+      "not.toBeSorted: message of an invalid operand")
+    Assert.throws(() => expect(5).not.toHaveLength(1), AssertionError, undefined, "not.toHaveLength: invalid operand")
+    expect([3, 1]).not.toBeSorted()
+
+    // Negated toThrow accepts no arguments
+    Assert.throws(() => expect(() => { throw new RangeError("Boom!") }).not.toThrow(TypeError), Error,
+      "expect(...).not.toThrow() accepts no arguments: the negation fails on any error", "not.toThrow: arguments")
+    Assert.throws(() => expect(() => 1).not.toThrow(undefined, "Boom!"), Error, undefined, "not.toThrow: message argument")
+  }
+
+  /** Test toReject and its negation. */
+  public static async asynchronous(): Promise<void> {
+    await expect(Promise.reject(new Error("Not found"))).toReject(Error, /not found/i)
+    await expect(async () => 1).not.toReject()
+    await Assert.rejects(() => expect(Promise.resolve(1), "Fetch").toReject(), AssertionError,
+      "Fetch: Expected promise to reject, but it resolved.", "toReject: resolved")
+    await Assert.rejects(() => expect(Promise.reject(new Error("Boom!"))).not.toReject(), AssertionError,
+      undefined, "not.toReject: rejected")
+    await Assert.rejects(() => expect(async () => 1).not.toReject(TypeError), Error,
+      "expect(...).not.toReject() accepts no arguments: the negation fails on any error", "not.toReject: arguments")
+  }
+}
+
 class TestRunnerTest {
   /**Test that runnerOff.title does not print (Node: capture output, Office Script: just run)*/
   public static titleVerbosityOff(): void {
@@ -1247,13 +2162,12 @@ class TestRunnerTest {
       Assert.equals(1, 1, "titlesAndExec: Exec should run this test")
     }, 2)
 
-    // Test exec with a function that fails
-    Assert.throws(
+    // Test exec with a function that fails: the failure is recorded, not propagated
+    Assert.doesNotThrow(
       () => runnerHeader.exec("Exec Fail", () => Assert.equals(1, 2, "Should fail")),
-      AssertionError,
-      undefined,
-      "titlesAndExec: TestRunner.exec should propagate assertion errors"
+      "titlesAndExec: TestRunner.exec should not propagate assertion errors"
     )
+    Assert.equals(runnerHeader.getSummary().failed, 1, "titlesAndExec: TestRunner.exec should record the failure")
 
     // Test exec with a non-function argument
     Assert.throws(
@@ -1269,16 +2183,848 @@ class TestRunnerTest {
     }
   }
 
+  /** Test that exec records passed, failed and errored test cases and keeps running after failures. */
+  public static execCollectsResults(): void {
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    let executedAfterFailure = false
+
+    runner.exec("Pass", () => Assert.isTrue(true))
+    runner.exec("Fail", () => Assert.equals(1, 2, "Should fail"))
+    runner.exec("Error", () => { throw new TypeError("Boom!") })
+    runner.exec("Non-Error", () => { throw "custom error string" })
+    runner.exec("After failures", () => { executedAfterFailure = true })
+    Assert.isTrue(executedAfterFailure, "execCollectsResults: test cases after a failure should be executed")
+
+    const results = runner.getResults()
+    Assert.equals(results.length, 5, "execCollectsResults: all test cases should be recorded")
+    Assert.equals(results[0].name, "Pass", "execCollectsResults: name is recorded")
+    Assert.equals(results[0].status, "passed", "execCollectsResults: passing test status")
+    Assert.equals(results[0].message, "", "execCollectsResults: passing test has empty message")
+    Assert.isUndefined(results[0].error, "execCollectsResults: passing test has no error")
+    Assert.equals(results[1].status, "failed", "execCollectsResults: AssertionError is recorded as failed")
+    Assert.equals(results[1].message, "Should fail: Assertion failed: actual (1 : number) !== expected (2 : number)",
+      "execCollectsResults: failure message is recorded")
+    Assert.equals(results[1].error.name, "AssertionError", "execCollectsResults: error name is recorded")
+    Assert.equals(results[2].status, "errored", "execCollectsResults: other errors are recorded as errored")
+    Assert.equals(results[2].error.name, "TypeError", "execCollectsResults: TypeError name is recorded")
+    Assert.equals(results[2].message, "Boom!", "execCollectsResults: TypeError message is recorded")
+    Assert.equals(results[3].status, "errored", "execCollectsResults: non-Error thrown values are recorded as errored")
+    Assert.equals(results[3].error.name, "unknown", "execCollectsResults: non-Error thrown value name")
+    Assert.equals(results[3].message, "custom error string", "execCollectsResults: non-Error thrown value message")
+
+    const summary = runner.getSummary()
+    Assert.equals(summary.total, 5, "execCollectsResults: summary total")
+    Assert.equals(summary.passed, 2, "execCollectsResults: summary passed")
+    Assert.equals(summary.failed, 1, "execCollectsResults: summary failed")
+    Assert.equals(summary.errored, 2, "execCollectsResults: summary errored")
+    Assert.equals(summary.failures.map(f => f.name), ["Fail", "Error", "Non-Error"],
+      "execCollectsResults: summary failures")
+
+    // getResults returns a copy
+    runner.getResults().pop()
+    Assert.equals(runner.getResults().length, 5, "execCollectsResults: getResults should return a copy")
+  }
+
+  /** Test that suites nest, derive the indentation level from the depth and group the results. */
+  public static suites(): void {
+    const runner = new TestRunner(TestRunner.VERBOSITY.SUBSECTION)
+    let logs: string[] = []
+    let canCapture = false
+    const originalLog = console.log
+    try {
+      console.log = function (msg: string) {
+        logs.push(msg)
+      }
+      canCapture = true
+    } catch (e) {
+      canCapture = false
+    }
+
+    try {
+      runner.suite("Outer", () => {
+        runner.exec("Pass", () => Assert.isTrue(true))
+        runner.describe("Inner", () => {
+          runner.exec("Fail", () => Assert.isTrue(false))
+          runner.suite("Deepest", () => {
+            runner.exec("Deep Pass", () => Assert.isTrue(true))
+          })
+        })
+        runner.suite("Broken", () => {
+          throw new Error("Suite body failed")
+        })
+      })
+      runner.exec("Top Level", () => Assert.isTrue(true))
+    } finally {
+      if (canCapture) {
+        console.log = originalLog
+      }
+    }
+
+    if (canCapture) {
+      Assert.equals(TestRunnerTest.withoutDurations(logs), [
+        "* START Outer *",
+        "** START Pass **",
+        "** END Pass **",
+        "** START Inner **",
+        "*** START Fail ***",
+        "*** END Fail ***",
+        "*** START Deepest ***",
+        "*** START Deep Pass ***",
+        "*** END Deep Pass ***",
+        "*** END Deepest (1 passed, 0 failed, 0 errored) ***",
+        "** END Inner (1 passed, 1 failed, 0 errored) **",
+        "** START Broken **",
+        "** END Broken (0 passed, 0 failed, 0 errored) **",
+        "* END Outer (2 passed, 1 failed, 1 errored) *",
+        "** START Top Level **",
+        "** END Top Level **"
+      ], "suites: titles should be nested by suite depth")
+    }
+
+    const results = runner.getResults()
+    Assert.equals(results.map(r => r.suite.join(" > ")),
+      ["Outer", "Outer > Inner", "Outer > Inner > Deepest", "Outer", ""],
+      "suites: results should record the enclosing suites")
+    Assert.equals(results[3].name, "Broken", "suites: suite body error is recorded with the suite name")
+    Assert.equals(results[3].status, "errored", "suites: suite body error is recorded as errored")
+
+    const suites = runner.getSuites()
+    Assert.equals(suites.length, 1, "suites: only top-level suites are listed")
+    Assert.equals(suites[0].name, "Outer", "suites: top-level suite name")
+    Assert.equals(suites[0].results.map(r => r.name), ["Pass", "Broken"], "suites: direct results of the suite")
+    Assert.equals(suites[0].suites.map(s => s.name), ["Inner", "Broken"], "suites: nested suites")
+    Assert.equals(suites[0].suites[0].suites[0].path, ["Outer", "Inner", "Deepest"], "suites: path of nested suite")
+    Assert.equals(runner.getSummary().suites.length, 1, "suites: summary includes the suites")
+
+    Assert.throws(
+      () => runner.suite("Not a function", null as unknown as () => void),
+      AssertionError,
+      "TestRunner.suite() expects a function as input.",
+      "suites: TestRunner.suite should throw if input is not a function"
+    )
+  }
+
+  /** Test the execution order of the lifecycle hooks of the runner and of nested suites. */
+  public static hooks(): void {
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    const calls: string[] = []
+
+    runner.beforeAll(() => calls.push("runner.beforeAll"))
+    runner.afterAll(() => calls.push("runner.afterAll"))
+    runner.beforeEach(() => calls.push("runner.beforeEach"))
+    runner.afterEach(() => calls.push("runner.afterEach"))
+    runner.suite("Outer", () => {
+      runner.beforeAll(() => calls.push("outer.beforeAll"))
+      runner.afterAll(() => calls.push("outer.afterAll"))
+      runner.beforeEach(() => calls.push("outer.beforeEach"))
+      runner.afterEach(() => calls.push("outer.afterEach"))
+      runner.exec("Test 1", () => { calls.push("test 1") })
+      runner.suite("Inner", () => {
+        runner.afterEach(() => calls.push("inner.afterEach"))
+        runner.exec("Test 2", () => { calls.push("test 2"); Assert.fail("Test 2 failed") })
+      })
+      runner.suite("Empty", () => {
+        runner.afterAll(() => calls.push("empty.afterAll"))
+      })
+    })
+    runner.exec("Test 3", () => { calls.push("test 3") })
+    const summary = runner.end()
+    runner.end() // No test cases since the previous call, so no hooks are executed
+
+    Assert.equals(calls, [
+      "runner.beforeAll", "outer.beforeAll",
+      "runner.beforeEach", "outer.beforeEach", "test 1", "outer.afterEach", "runner.afterEach",
+      "runner.beforeEach", "outer.beforeEach", "test 2", "inner.afterEach", "outer.afterEach", "runner.afterEach",
+      "outer.afterAll",
+      "runner.beforeEach", "test 3", "runner.afterEach",
+      "runner.afterAll"
+    ], "hooks: execution order")
+    Assert.equals(summary.passed, 2, "hooks: passed test cases")
+    Assert.equals(summary.failed, 1, "hooks: assertion failure with afterEach hooks is still recorded as failed")
+    Assert.isUndefined(summary.failures[0].hook, "hooks: test function failure has no hook")
+
+    Assert.throws(
+      () => runner.beforeEach(null as unknown as () => void),
+      AssertionError,
+      "TestRunner.beforeEach() expects a function as input.",
+      "hooks: registering a non-function hook should throw"
+    )
+  }
+
+  /** Test that hook failures are recorded as errored with the hook name, and teardown is guaranteed. */
+  public static hookFailures(): void {
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    const calls: string[] = []
+
+    runner.suite("beforeAll fails", () => {
+      runner.beforeAll(() => { calls.push("beforeAll"); throw new Error("beforeAll failed") })
+      runner.exec("Test 1", () => { calls.push("test 1") })
+      runner.exec("Test 2", () => { calls.push("test 2") })
+    })
+    runner.suite("beforeEach fails", () => {
+      runner.beforeEach(() => Assert.fail("beforeEach failed"))
+      runner.afterEach(() => calls.push("afterEach"))
+      runner.exec("Test 3", () => { calls.push("test 3") })
+    })
+    runner.suite("afterEach fails", () => {
+      runner.afterEach(() => { throw new Error("afterEach failed") })
+      runner.exec("Test 4", () => { calls.push("test 4") })
+      runner.exec("Test 5", () => { throw new TypeError("Test 5 failed") })
+    })
+    runner.suite("afterAll fails", () => {
+      runner.afterAll(() => { throw new Error("afterAll failed") })
+      runner.exec("Test 6", () => { calls.push("test 6") })
+    })
+
+    Assert.equals(calls, ["beforeAll", "afterEach", "test 4", "test 6"],
+      "hookFailures: beforeAll runs once, test functions are not executed after a setup failure, teardown always runs")
+    const results = runner.getResults()
+    Assert.equals(results.map(r => `${r.name}:${r.status}:${r.hook}:${r.message}`), [
+      "Test 1:errored:beforeAll:beforeAll failed",
+      "Test 2:errored:beforeAll:beforeAll failed",
+      "Test 3:errored:beforeEach:beforeEach failed",
+      "Test 4:errored:afterEach:afterEach failed",
+      "Test 5:errored:undefined:Test 5 failed",
+      "Test 6:passed:undefined:",
+      "afterAll hook:errored:afterAll:afterAll failed"
+    ], "hookFailures: hook failures are recorded as errored with the hook name")
+    Assert.equals(results[6].suite, ["afterAll fails"], "hookFailures: afterAll failure is recorded in its suite")
+  }
+
+  /** Test that skipped and todo test cases are not executed and are reported in the summary. */
+  public static skipAndTodo(): void {
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    let executed = false
+
+    runner.beforeEach(() => { executed = true })
+    runner.suite("Suite", () => {
+      runner.skip("Skipped", () => { executed = true })
+      runner.todo("Not implemented yet")
+      runner.todo("Draft", () => { executed = true })
+    })
+    Assert.isFalse(executed, "skipAndTodo: skipped and todo test cases and their hooks should not be executed")
+    runner.exec("Executed", () => Assert.isTrue(true))
+
+    const summary = runner.getSummary()
+    Assert.equals(runner.getResults().map(r => `${r.name}:${r.status}`),
+      ["Skipped:skipped", "Not implemented yet:todo", "Draft:todo", "Executed:passed"],
+      "skipAndTodo: statuses")
+    Assert.equals(summary.total, 4, "skipAndTodo: total includes skipped and todo test cases")
+    Assert.equals(summary.skipped, 1, "skipAndTodo: skipped count")
+    Assert.equals(summary.todo, 2, "skipAndTodo: todo count")
+    Assert.equals(summary.failures.length, 0, "skipAndTodo: skipped and todo test cases are not failures")
+  }
+
+  /** Test focus mode via TestRunner.only and the forbidOnly guard. */
+  public static only(): void {
+    // Focus mode enabled by the first call to only
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { forbidOnly: false })
+    const calls: string[] = []
+    runner.exec("Before", () => { calls.push("before") })
+    runner.only("Focused", () => { calls.push("focused") })
+    runner.exec("After", () => { calls.push("after") })
+    Assert.equals(calls, ["before", "focused"], "only: test cases after a focused one should not be executed")
+    Assert.equals(runner.getResults().map(r => r.status), ["passed", "passed", "skipped"], "only: statuses")
+
+    // Focus mode enabled by the option
+    const runnerOnly = new TestRunner(TestRunner.VERBOSITY.OFF, { only: true, forbidOnly: false })
+    runnerOnly.exec("Not focused", () => Assert.fail("Should not be executed"))
+    runnerOnly.only("Focused", () => Assert.isTrue(true))
+    Assert.equals(runnerOnly.getResults().map(r => r.status), ["skipped", "passed"], "only: option skips all other test cases")
+    Assert.throws(() => runnerOnly.exec("Not a function", "x" as unknown as TestFunction), AssertionError,
+      "TestRunner.exec() expects a function as input.", "only: exec validates its function in focus mode")
+    Assert.equals(runnerOnly.getResults().length, 2, "only: invalid test case is not recorded in focus mode")
+
+    // Guard: focused test cases are not allowed
+    const runnerCI = new TestRunner(TestRunner.VERBOSITY.OFF, { forbidOnly: true })
+    let executed = false
+    runnerCI.only("Left over", () => { executed = true })
+    runnerCI.exec("Regular", () => Assert.isTrue(true))
+    Assert.isFalse(executed, "only: focused test case should not be executed with forbidOnly")
+    const summary = runnerCI.getSummary()
+    Assert.equals(summary.failed, 1, "only: focused test case should fail the run with forbidOnly")
+    Assert.equals(summary.failures[0].message,
+      "TestRunner.only() is not allowed when the 'forbidOnly' option is set (e.g. in CI): 'Left over'",
+      "only: forbidOnly message")
+    Assert.equals(summary.passed, 1, "only: focus mode should not be enabled with forbidOnly")
+  }
+
+  /** Test that async test cases are awaited, with titles in the right order and rejections recorded. */
+  public static async asyncExec(): Promise<void> {
+    const runner = new TestRunner(TestRunner.VERBOSITY.SECTION)
+    let logs: string[] = []
+    let canCapture = false
+    const originalLog = console.log
+    try {
+      console.log = function (msg: string) {
+        logs.push(msg)
+      }
+      canCapture = true
+    } catch (e) {
+      canCapture = false
+    }
+
+    let pending: void | Promise<void>
+    try {
+      pending = runner.exec("Async Pass", async () => {
+        await Promise.resolve()
+        console.log("inside")
+      })
+      Assert.isInstanceOf(pending, Promise, "asyncExec: exec should return a Promise for an async function")
+      await pending
+      await runner.exec("Async Fail", async () => {
+        await Promise.resolve()
+        Assert.equals(1, 2, "Should fail")
+      })
+      await runner.exec("Async Error", () => Promise.reject(new TypeError("Boom!")))
+      pending = runner.exec("Sync", () => Assert.isTrue(true))
+    } finally {
+      if (canCapture) {
+        console.log = originalLog
+      }
+    }
+
+    Assert.isUndefined(pending, "asyncExec: exec should not return a Promise for a sync function")
+    if (canCapture) {
+      Assert.equals(TestRunnerTest.withoutDurations(logs.slice(0, 3)), ["** START Async Pass **", "inside", "** END Async Pass **"],
+        "asyncExec: end title should be printed after the awaited work")
+    }
+    Assert.equals(runner.getResults().map(r => `${r.name}:${r.status}`),
+      ["Async Pass:passed", "Async Fail:failed", "Async Error:errored", "Sync:passed"],
+      "asyncExec: statuses of async test cases")
+    Assert.equals(runner.getResults()[2].message, "Boom!", "asyncExec: rejection message is recorded")
+  }
+
+  /** Test async lifecycle hooks and async suites. */
+  public static async asyncHooksAndSuites(): Promise<void> {
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF)
+    const calls: string[] = []
+
+    runner.afterAll(async () => { await Promise.resolve(); calls.push("runner.afterAll") })
+    await runner.suite("Async Suite", async () => {
+      runner.beforeAll(async () => { await Promise.resolve(); calls.push("beforeAll") })
+      runner.beforeEach(async () => { await Promise.resolve(); calls.push("beforeEach") })
+      runner.afterEach(async () => { await Promise.resolve(); calls.push("afterEach") })
+      runner.afterAll(async () => { await Promise.resolve(); throw new Error("afterAll failed") })
+      await runner.exec("Sync test with async hooks", () => { calls.push("test 1") })
+      await runner.exec("Async test", async () => { await Promise.resolve(); calls.push("test 2") })
+      await runner.suite("Nested", async () => {
+        await runner.exec("Nested test", async () => { calls.push("test 3") })
+      })
+    })
+    runner.exec("Another test", () => { calls.push("test 4") })
+    const summary = await runner.endAsync()
+
+    Assert.equals(calls, [
+      "beforeAll", "beforeEach", "test 1", "afterEach",
+      "beforeEach", "test 2", "afterEach",
+      "beforeEach", "test 3", "afterEach",
+      "test 4", "runner.afterAll"
+    ], "asyncHooksAndSuites: execution order")
+    Assert.equals(runner.getResults().map(r => `${r.suite.join(" > ")}:${r.name}:${r.status}`), [
+      "Async Suite:Sync test with async hooks:passed",
+      "Async Suite:Async test:passed",
+      "Async Suite > Nested:Nested test:passed",
+      "Async Suite:afterAll hook:errored",
+      ":Another test:passed"
+    ], "asyncHooksAndSuites: results")
+    Assert.equals(summary.errored, 1, "asyncHooksAndSuites: endAsync returns the summary")
+
+    // The synchronous end cannot wait for asynchronous afterAll hooks
+    const runnerSync = new TestRunner(TestRunner.VERBOSITY.OFF)
+    runnerSync.afterAll(async () => { await Promise.resolve() })
+    runnerSync.exec("Test", () => Assert.isTrue(true))
+    Assert.throws(
+      () => runnerSync.end(),
+      AssertionError,
+      "TestRunner.end() cannot wait for asynchronous afterAll hooks, use TestRunner.endAsync() instead.",
+      "asyncHooksAndSuites: end should throw for async afterAll hooks"
+    )
+  }
+
+  /** Test the durations, the per-test time budget and the run time budget. */
+  public static async timeouts(): Promise<void> {
+    const busyWait = (ms: number) => {
+      const start = Date.now()
+      while (Date.now() - start < ms) { /* busy wait */ }
+    }
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { timeout: 20 })
+    runner.exec("Fast", () => Assert.isTrue(true))
+    runner.exec("Slow sync", () => busyWait(30))
+    runner.exec("Slow with own budget", () => busyWait(30), undefined, 1000)
+    runner.exec("No budget", () => busyWait(30), undefined, 0)
+    runner.exec("Slow and failing", () => { busyWait(30); Assert.isTrue(false, "Own failure") })
+    if (typeof setTimeout === "function") {
+      await runner.exec("Slow async", () => new Promise<void>(resolve => setTimeout(resolve, 1000)))
+    }
+    let results = runner.getResults()
+    Assert.equals(results.slice(0, 5).map(r => `${r.name}:${r.status}`),
+      ["Fast:passed", "Slow sync:failed", "Slow with own budget:passed", "No budget:passed", "Slow and failing:failed"],
+      "timeouts: statuses with the per-test time budget")
+    Assert.isTrue(results[1].duration >= 30, "timeouts: duration of the test case is recorded")
+    Assert.isTrue(results[1].message.indexOf("Test exceeded the time budget of 20 ms (took ") === 0,
+      "timeouts: message of a sync test case exceeding the time budget")
+    Assert.equals(results[4].message, "Own failure: Expected value to be truthy, but got (false)", "timeouts: own failure takes precedence over the time budget")
+    if (typeof setTimeout === "function") {
+      Assert.equals(results[5].status, "failed", "timeouts: async test case exceeding the time budget fails")
+      Assert.equals(results[5].message, "Test exceeded the time budget of 20 ms and is no longer awaited",
+        "timeouts: async test case is not awaited after the time budget")
+      Assert.isTrue(results[5].duration < 1000, "timeouts: async test case is abandoned")
+
+      // afterEach hooks run once the test function is abandoned, before the next test case
+      const log: string[] = []
+      const runnerHooks = new TestRunner(TestRunner.VERBOSITY.OFF, { timeout: 20 })
+      runnerHooks.afterEach(() => { log.push("afterEach") })
+      await runnerHooks.exec("Hanging", () => new Promise<void>(resolve => setTimeout(resolve, 200)))
+      log.push("next")
+      await runnerHooks.exec("Next", () => { log.push("test") })
+      Assert.equals(log, ["afterEach", "next", "test", "afterEach"],
+        "timeouts: afterEach hooks of an abandoned test case run before the next test case")
+      Assert.equals(runnerHooks.getResults()[0].message, "Test exceeded the time budget of 20 ms and is no longer awaited",
+        "timeouts: abandoned test case with afterEach hooks")
+    }
+
+    // The time budget applies to the test function only, not to its hooks
+    const runnerSlowHooks = new TestRunner(TestRunner.VERBOSITY.OFF, { timeout: 20 })
+    runnerSlowHooks.suite("Slow hooks", () => {
+      runnerSlowHooks.beforeAll(() => busyWait(30))
+      runnerSlowHooks.beforeEach(() => busyWait(30))
+      runnerSlowHooks.afterEach(() => busyWait(30))
+      runnerSlowHooks.exec("Fast", () => Assert.isTrue(true))
+    })
+    results = runnerSlowHooks.getResults()
+    Assert.equals(results[0].status, "passed", "timeouts: slow hooks do not count in the time budget")
+    Assert.isTrue(results[0].duration >= 90, "timeouts: duration of the test case includes its hooks")
+    Assert.isUndefined(results[0].warning, "timeouts: no warning for slow hooks")
+
+    // Warn mode and run time budget
+    const runnerWarn = new TestRunner(TestRunner.VERBOSITY.OFF, { timeout: 10, budget: 20, onBudgetExceeded: "warn" })
+    runnerWarn.suite("Suite", () => {
+      runnerWarn.exec("Slow", () => busyWait(30))
+    })
+    let summary = runnerWarn.end()
+    Assert.equals(summary.passed, 1, "timeouts: warn mode keeps the status")
+    Assert.equals(summary.warnings.length, 2, "timeouts: warnings for the test case and for the run")
+    Assert.isTrue(summary.warnings[0].indexOf("Suite > Slow: Test exceeded the time budget of 10 ms") === 0,
+      "timeouts: warning of the test case")
+    Assert.isTrue(summary.warnings[1].indexOf("Test run exceeded the time budget of 20 ms") === 0,
+      "timeouts: warning of the run")
+    Assert.isTrue(summary.duration >= 30, "timeouts: duration of the run")
+    Assert.isTrue(runnerWarn.getSuites()[0].duration >= 30, "timeouts: duration of the suite")
+
+    const runnerFail = new TestRunner(TestRunner.VERBOSITY.OFF, { budget: 10 })
+    runnerFail.exec("Slow", () => busyWait(20))
+    summary = runnerFail.end()
+    Assert.equals(summary.results.map(r => `${r.name}:${r.status}`), ["Slow:passed", "Run time budget:failed"],
+      "timeouts: run time budget exceeded is recorded as a failure")
+    summary = runnerFail.end()
+    Assert.equals(summary.total, 2, "timeouts: run time budget is checked only once")
+  }
+
+  /** Test the events emitted to custom reporters, and that the console output is produced by a reporter. */
+  public static reporters(): void {
+    const events: string[] = []
+    const reporter: TestReporter = {
+      onRunStart: () => events.push("runStart"),
+      onTitle: (msg, indent) => events.push(`title:${msg}:${indent}`),
+      onSuiteStart: (suite, indent) => events.push(`suiteStart:${suite.path.join(">")}:${indent}`),
+      onSuiteEnd: (suite, indent) => events.push(`suiteEnd:${suite.name}:${suite.results.length}:${indent}`),
+      onTestStart: (name, suite, indent) => events.push(`testStart:${suite.join(">")}:${name}:${indent}`),
+      onTestPass: (result, indent) => events.push(`testPass:${result.name}:${indent}`),
+      onTestFail: (result, indent) => events.push(`testFail:${result.name}:${result.status}:${indent}`),
+      onTestSkip: (result, indent) => events.push(`testSkip:${result.name}:${result.status}:${indent}`),
+      onRunEnd: summary => events.push(`runEnd:${summary.total}`),
+      onSummary: summary => events.push(`summary:${summary.failures.length}`)
+    }
+    const partial: TestReporter = { onTestFail: result => events.push(`partial:${result.name}`) }
+
+    let logs: string[] = []
+    let canCapture = false
+    const originalLog = console.log
+    try {
+      console.log = function (msg: string) {
+        logs.push(msg)
+      }
+      canCapture = true
+    } catch (e) {
+      canCapture = false
+    }
+
+    try {
+      const runner = new TestRunner(TestRunner.VERBOSITY.SUBSECTION, { reporters: [reporter, partial] })
+      runner.title("Title", 1)
+      runner.suite("Suite", () => {
+        runner.exec("Pass", () => Assert.isTrue(true))
+        runner.exec("Fail", () => Assert.isTrue(false))
+        runner.skip("Skip")
+        runner.todo("Todo")
+      })
+      runner.exec("Error", () => { throw new Error("Boom!") }, 3)
+      runner.end()
+      runner.printSummary()
+    } finally {
+      if (canCapture) {
+        console.log = originalLog
+      }
+    }
+
+    Assert.equals(events, [
+      "runStart",
+      "title:Title:1",
+      "suiteStart:Suite:1",
+      "testStart:Suite:Pass:2",
+      "testPass:Pass:2",
+      "testStart:Suite:Fail:2",
+      "testFail:Fail:failed:2",
+      "partial:Fail",
+      "testSkip:Skip:skipped:2",
+      "testSkip:Todo:todo:2",
+      "suiteEnd:Suite:4:1",
+      "testStart::Error:3",
+      "testFail:Error:errored:3",
+      "partial:Error",
+      "runEnd:5",
+      "summary:2"
+    ], "reporters: events emitted in order, to all reporters")
+    if (canCapture) {
+      Assert.equals(logs.length, 0, "reporters: no console output without a ConsoleReporter")
+    }
+
+    // ConsoleReporter used standalone
+    logs = []
+    try {
+      if (canCapture) {
+        console.log = function (msg: string) {
+          logs.push(msg)
+        }
+      }
+      const consoleReporter = new ConsoleReporter(TestRunner.VERBOSITY.SECTION)
+      consoleReporter.onTitle("Header", 1)
+      consoleReporter.onTitle("Hidden", 3)
+      consoleReporter.onTestSkip({ name: "Later", suite: [], status: "todo", message: "", duration: 0 }, 2)
+    } finally {
+      if (canCapture) {
+        console.log = originalLog
+      }
+    }
+    if (canCapture) {
+      Assert.equals(logs, ["* Header *", "** TODO Later **"], "reporters: ConsoleReporter output")
+    }
+  }
+
+  /** Removes the durations from the captured titles, since they vary between executions. */
+  private static withoutDurations(logs: string[]): string[] {
+    return logs.map(line => line.replace(/ \(\d+ ms\)/, "").replace(/, \d+ ms\)/, ")"))
+  }
+
   /** Test the getVerbosity and getVerbosityLabel methods of TestRunner. */
   public static verbosityProperties(): void {
     const runner = new TestRunner(TestRunner.VERBOSITY.SECTION)
     Assert.equals(runner.getVerbosity(), TestRunner.VERBOSITY.SECTION, "verbosityProperties: getVerbosity should return SECTION")
     Assert.equals(runner.getVerbosityLabel(), "SECTION", "verbosityProperties: getVerbosityLabel should return 'SECTION'")
-    Assert.equals(runner.getVerbosityLabel(), "SUBSECTION", "verbosityProperties: getVerbosityLabel should return 'SUBSECTION'")
+    const runnerSub = new TestRunner(TestRunner.VERBOSITY.SUBSECTION)
+    Assert.equals(runnerSub.getVerbosityLabel(), "SUBSECTION", "verbosityProperties: getVerbosityLabel should return 'SUBSECTION'")
   }
 
 }
 
+/**Test cases for the reporters other than the default ConsoleReporter. Each test runs a
+ * runner with the reporter only (no console output), so the output can be checked.
+ */
+class ReporterTest {
+
+  /** Test the JUnit XML report: suites flattened by path, failures, errors, skipped and escaping. */
+  public static junit(): void {
+    const junit = new JUnitReporter("Report")
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [junit] })
+    runner.exec("Root <test>", () => Assert.isTrue(true))
+    runner.suite("Outer", () => {
+      runner.exec("Fail", () => Assert.equals(1, 2, "a & b"))
+      runner.suite("Inner", () => {
+        runner.beforeEach(() => { throw new TypeError("Setup") })
+        runner.exec("Error", () => Assert.isTrue(true))
+      })
+      runner.skip("Skip")
+      runner.todo("Todo")
+    })
+    Assert.equals(junit.getOutput(), "", "junit: no output before the run ends")
+    runner.end()
+
+    const xml = junit.getOutput()
+      .replace(/time="[\d.]+"/g, `time="T"`)
+      .replace(/(<(failure|error)[^>]*>)[\s\S]*?(<\/(failure|error)>)/g, "$1STACK$3")
+    Assert.equals(xml.split("\n"), [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="Report" tests="5" failures="1" errors="1" skipped="2" time="T">`,
+      `  <testsuite name="Report" tests="1" failures="0" errors="0" skipped="0" time="T">`,
+      `    <testcase name="Root &lt;test&gt;" classname="Report" time="T"/>`,
+      `  </testsuite>`,
+      `  <testsuite name="Outer" tests="3" failures="1" errors="0" skipped="2" time="T">`,
+      `    <testcase name="Fail" classname="Outer" time="T">`,
+      `      <failure message="a &amp; b: Assertion failed: actual (1 : number) !== expected (2 : number)" type="AssertionError">STACK</failure>`,
+      `    </testcase>`,
+      `    <testcase name="Skip" classname="Outer" time="T">`,
+      `      <skipped/>`,
+      `    </testcase>`,
+      `    <testcase name="Todo" classname="Outer" time="T">`,
+      `      <skipped message="todo"/>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+      `  <testsuite name="Outer &gt; Inner" tests="1" failures="0" errors="1" skipped="0" time="T">`,
+      `    <testcase name="Error" classname="Outer &gt; Inner" time="T">`,
+      `      <error message="Setup (beforeEach hook)" type="TypeError">STACK</error>`,
+      `    </testcase>`,
+      `  </testsuite>`,
+      `</testsuites>`
+    ], "junit: XML report")
+    Assert.isTrue(junit.getOutput().indexOf("TypeError: Setup") !== -1, "junit: the stack is included")
+  }
+
+  /** Test the TAP version 13 report: test points, directives, diagnostic blocks, plan and counts. */
+  public static tap(): void {
+    const tap = new TapReporter()
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [tap] })
+    runner.suite("Suite #1", () => {
+      runner.exec("Pass", () => Assert.isTrue(true))
+      runner.exec("Fail", () => {
+        throw new AssertionError("Values differ", { actual: [1, 2], expected: "b", operator: "equals" })
+      })
+    })
+    runner.skip("Skip")
+    runner.todo("Todo")
+    runner.exec("Error", () => { throw "Boom!" })
+    Assert.equals(tap.getOutput(), "", "tap: no output before the run ends")
+    runner.end()
+
+    const lines = tap.getOutput().split("\n")
+    const stackStart = lines.indexOf("  stack: |-")
+    Assert.isTrue(stackStart !== -1 && lines[stackStart + 1].indexOf("    AssertionError: Values differ") === 0,
+      "tap: the stack is a YAML block scalar")
+    const withoutStack = lines.filter((line, i) => i <= stackStart || !/^    /.test(line))
+      .map(line => line.replace(/duration_ms:? \d+/, "duration_ms T"))
+    Assert.equals(withoutStack, [
+      "TAP version 13",
+      "ok 1 - Suite \\#1 > Pass",
+      "not ok 2 - Suite \\#1 > Fail",
+      "  ---",
+      `  message: "Values differ"`,
+      "  severity: fail",
+      `  type: "AssertionError"`,
+      `  operator: "equals"`,
+      `  actual: "[1,2]"`,
+      `  expected: "\\"b\\""`,
+      "  duration_ms T",
+      "  stack: |-",
+      "  ...",
+      "ok 3 - Skip # SKIP",
+      "not ok 4 - Todo # TODO",
+      "not ok 5 - Error",
+      "  ---",
+      `  message: "Boom!"`,
+      "  severity: error",
+      `  type: "unknown"`,
+      "  duration_ms T",
+      "  ...",
+      "1..5",
+      "# tests 5",
+      "# pass 1",
+      "# fail 2",
+      "# skip 1",
+      "# todo 1",
+      "# duration_ms T"
+    ], "tap: TAP version 13 report")
+  }
+
+  /** Test the JSON result document: JSON values only, success flag and detached from the runner. */
+  public static json(): void {
+    const json = new JsonReporter()
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [json] })
+    runner.suite("Suite", () => {
+      runner.exec("Pass", () => Assert.isTrue(true))
+    })
+    Assert.isUndefined(json.getReport(), "json: no document before the run ends")
+    Assert.equals(json.getOutput(), "", "json: no output before the run ends")
+    runner.end()
+
+    let report = json.getReport()
+    Assert.isTrue(report.success, "json: success without failures")
+    Assert.equals(report.total, 1, "json: counts of the run")
+    Assert.equals(report.suites[0].results[0].name, "Pass", "json: suites of the run")
+    Assert.isTrue(!isNaN(Date.parse(report.timestamp)), "json: timestamp in ISO format")
+    Assert.equals(JSON.parse(json.getOutput()), report, "json: output is the JSON text of the document")
+
+    runner.exec("Fail", () => {
+      const error = new AssertionError("Values differ")
+      Object.assign(error, { actual: undefined, expected: { a: 1 } })
+      throw error
+    })
+    Assert.equals(report.total, 1, "json: the document is detached from the runner")
+    runner.end()
+    report = json.getReport()
+    Assert.isFalse(report.success, "json: no success with failures")
+    Assert.equals([report.failures[0].error.actual, report.failures[0].error.expected], ["undefined", `{"a":1}`],
+      "json: actual and expected values of the error")
+    Assert.equals(JSON.parse(JSON.stringify(report)), report, "json: the document has JSON values only")
+  }
+
+  /** Test the HTML report: self-contained, collapsible suites, failure details, filters and escaping. */
+  public static html(): void {
+    const html = new HtmlReporter("Report <1>")
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [html] })
+    runner.exec("Root", () => Assert.isTrue(true))
+    runner.suite("Passing", () => {
+      runner.exec("Pass", () => Assert.isTrue(true))
+    })
+    runner.suite("Failing", () => {
+      runner.suite("Nested", () => {
+        runner.exec("Fail <b>", () => {
+          const error = new AssertionError("Values differ")
+          Object.assign(error, { actual: "<a>", expected: 2 })
+          throw error
+        })
+      })
+      runner.todo("Todo")
+    })
+    Assert.equals(html.getOutput(), "", "html: no output before the run ends")
+    runner.end()
+
+    const out = html.getOutput()
+    Assert.isTrue(out.indexOf("<!DOCTYPE html>") === 0, "html: HTML document")
+    Assert.isTrue(out.indexOf("<title>Report &lt;1&gt;</title>") !== -1, "html: escaped title")
+    Assert.isFalse(/(src|href)=/.test(out), "html: no external assets")
+    Assert.isTrue(out.indexOf(`<input type="checkbox" data-status="failed" checked> failed (1)</label>`) !== -1,
+      "html: filter by status")
+    Assert.isTrue(out.indexOf(".hide-failed .test.failed{display:none}") !== -1, "html: filter style")
+    Assert.isTrue(/<details class="suite">\n<summary>Passing<span class="counts">1 passed<\/span>/.test(out),
+      "html: passing suite collapsed")
+    Assert.isTrue(/<details class="suite" open>\n<summary>Failing<span class="counts">1 failed, 1 todo<\/span>/.test(out),
+      "html: failing suite expanded")
+    Assert.isTrue(out.indexOf(`<details class="suite" open>\n<summary>Nested<`) > out.indexOf("<summary>Failing<"),
+      "html: nested suites")
+    Assert.isTrue(out.indexOf(`<span class="badge failed">failed</span> Fail &lt;b&gt;`) !== -1, "html: escaped test name")
+    Assert.isTrue(out.indexOf(`<details class="failure"><summary>[AssertionError] Values differ</summary>`) !== -1,
+      "html: failure message")
+    Assert.isTrue(out.indexOf(`<div><h4>Actual</h4><pre>&quot;&lt;a&gt;&quot;</pre></div>`
+      + `<div><h4>Expected</h4><pre>2</pre></div>`) !== -1, "html: actual vs expected side by side")
+    Assert.isTrue(out.indexOf(`<pre class="stack">AssertionError: Values differ`) !== -1, "html: stack")
+  }
+
+  /** Test the Markdown summary: totals, failures table, slowest test cases, warnings and escaping. */
+  public static markdown(): void {
+    const result = (suite: string[], name: string, duration: number): TestResult =>
+      ({ name, suite, status: "passed", message: "", duration })
+    const message = `Multi\nline: Assertion failed: actual ("a\\nb" : string) !== expected ("c" : string)` +
+      "\nDifferences (- expected, + actual):\n  - c\n  + a\n  + b"
+    const failure: TestResult = {
+      ...result(["Suite"], "Fail | pipe", 1), status: "failed", message, error: { name: "AssertionError", message }
+    }
+    const results = [result(["Suite"], "Slow", 20), result(["Suite"], "Slower", 30), failure, result([], "Too slow", 10)]
+    const summary: TestRunSummary = {
+      total: 4, passed: 3, failed: 1, errored: 0, skipped: 0, todo: 0, failures: [failure], results, suites: [],
+      duration: 75, warnings: ["Too slow: Test exceeded the time budget of 5 ms (took 10 ms)"]
+    }
+    const md = new MarkdownReporter("PR Tests", 2)
+    Assert.equals(md.getOutput(), "", "markdown: no output before the run ends")
+    md.onRunEnd(summary)
+
+    const lines = md.getOutput().split("\n")
+    Assert.equals(lines.slice(0, 13), [
+      "## PR Tests: FAILED",
+      "",
+      "| Total | Passed | Failed | Errored | Skipped | Todo | Duration |",
+      "|---:|---:|---:|---:|---:|---:|---:|",
+      "| 4 | 3 | 1 | 0 | 0 | 0 | 75 ms |",
+      "",
+      "### Failures",
+      "",
+      "| Test | Status | Message |",
+      "|---|---|---|",
+      `| Suite > Fail \\| pipe | failed | [AssertionError] Multi<br>line: Assertion failed: actual ("a\\nb" : string) !== expected ("c" : string)` +
+        "<br>Differences (- expected, + actual):<br>  - c<br>  + a<br>  + b |",
+      "",
+      "### Slowest tests"
+    ], "markdown: totals and failures table")
+    Assert.equals(lines.slice(16, 18), ["| Suite > Slower | 30 ms |", "| Suite > Slow | 20 ms |"],
+      "markdown: slowest test cases, limited to the given number")
+    Assert.equals(lines.slice(18, 21), ["", "### Warnings", ""], "markdown: warnings section")
+    Assert.equals(lines[21], "- Too slow: Test exceeded the time budget of 5 ms (took 10 ms)", "markdown: warning")
+
+    // The summary of a run
+    const runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [md] })
+    runner.exec("Pass", () => Assert.isTrue(true))
+    runner.end()
+    Assert.equals(md.getOutput().split("\n")[0], "## PR Tests: PASSED", "markdown: output of a run")
+  }
+
+  /** Test the worksheet report: table values, header and status colours, and overwriting a previous report.
+   * It uses its own worksheet, deleted at the end, so it does not interfere with the report of the run. */
+  public static worksheet(workbook: ExcelScript.Workbook): void {
+    const SHEET = "Test Results (WorksheetReporter test)"
+    const reporter = new WorksheetReporter(workbook, SHEET)
+    try {
+      let runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [reporter] })
+      runner.suite("Suite", () => {
+        runner.exec("Pass", () => Assert.isTrue(true))
+        runner.exec("Fail", () => Assert.isTrue(false, "Failure"))
+      })
+      runner.skip("Skip")
+      runner.exec("Error", () => { throw new TypeError("Boom!") })
+      runner.exec("Previous", () => Assert.isTrue(true))
+      runner.end()
+
+      const sheet = workbook.getWorksheet(SHEET)
+      Assert.isDefined(sheet, "worksheet: the worksheet is created")
+      const values = sheet.getRange("A1:E6").getValues()
+      Assert.equals(values.map(row => row.filter((v, col) => col !== 3)), [
+        ["Suite", "Test", "Status", "Message"],
+        ["Suite", "Pass", "passed", ""],
+        ["Suite", "Fail", "failed", "[AssertionError] Failure: Expected value to be truthy, but got (false)"],
+        ["", "Skip", "skipped", ""],
+        ["", "Error", "errored", "[TypeError] Boom!"],
+        ["", "Previous", "passed", ""]
+      ], "worksheet: table of suite, test name, status and message")
+      Assert.equals(values.slice(1).map(row => typeof row[3]), ["number", "number", "number", "number", "number"],
+        "worksheet: durations are numbers")
+      Assert.isTrue(sheet.getRange("A1:E1").getFormat().getFont().getBold(), "worksheet: bold header")
+      Assert.equals(["A2:E2", "A3:E3", "A4:E4", "A5:E5"].map(a => sheet.getRange(a).getFormat().getFill().getColor()),
+        ["#C6EFCE", "#FFC7CE", "#FFEB9C", "#FFC7CE"], "worksheet: rows coloured by status")
+
+      // A new run overwrites the previous report
+      runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [reporter] })
+      runner.exec("Only one", () => Assert.isTrue(true))
+      runner.end()
+      Assert.equals(workbook.getWorksheet(SHEET).getRange("B2:B6").getValues(), [["Only one"], [""], [""], [""], [""]],
+        "worksheet: the previous report is cleared")
+      Assert.equals(sheet.getRange("A6:E6").getFormat().getFill().getColor(), "#FFFFFF",
+        "worksheet: the previous colours are cleared")
+
+      // Texts starting with "=" are not formulas, and the rows of the same colour are coloured at once
+      const colored: string[] = []
+      const getRanges = sheet.getRanges.bind(sheet)
+      sheet.getRanges = (address: string) => {
+        colored.push(address)
+        return getRanges(address)
+      }
+      runner = new TestRunner(TestRunner.VERBOSITY.OFF, { reporters: [reporter] })
+      runner.exec("=1+1", () => Assert.isTrue(true))
+      runner.exec("Second", () => Assert.isTrue(true))
+      runner.exec("Fail", () => Assert.isTrue(false))
+      runner.exec("Third", () => Assert.isTrue(true))
+      runner.exec("Error", () => { throw new Error("Boom!") })
+      runner.end()
+      Assert.equals(sheet.getRange("B2").getValues(), [["=1+1"]], "worksheet: a test name starting with = is written as text")
+      Assert.equals(colored, ["A2:E3,A5:E5", "A4:E4,A6:E6"], "worksheet: one call per colour")
+      Assert.equals(["A2:E2", "A3:E3", "A4:E4", "A5:E5", "A6:E6"].map(a => sheet.getRange(a).getFormat().getFill().getColor()),
+        ["#C6EFCE", "#C6EFCE", "#FFC7CE", "#C6EFCE", "#FFC7CE"], "worksheet: rows coloured by blocks")
+    } finally {
+      const sheet = workbook.getWorksheet(SHEET)
+      if (sheet) {
+        sheet.delete()
+      }
+    }
+  }
+
+}
 
 // ----------------------------------------
 // End Testing the Logging framework
@@ -4,10 +4,60 @@
 // - Only selected types, enums, and interfaces are included for simplicity and to avoid overcomplicating local mocks.
 //
 // Field documentation and rationale:
-// - Workbook: Only the class declaration is included for basic compatibility.
+// - Workbook: Worksheet management (get, add), used by WorksheetReporter.
+// - Worksheet, Range, RangeAreas, RangeFormat, RangeFill, RangeFont: Values and basic formatting of cells, with the same
+//   signatures as the Office Scripts API (https://learn.microsoft.com/javascript/api/office-scripts/excelscript).
 // - Expand this file with more classes, interfaces, or enums as your test and implementation needs grow.
 
 declare namespace ExcelScript {
   class Workbook {
+    getWorksheet(name: string): Worksheet | undefined
+    getWorksheets(): Worksheet[]
+    addWorksheet(name?: string): Worksheet
   }
-}
\ No newline at end of file
+
+  class Worksheet {
+    getName(): string
+    delete(): void
+    getRange(address?: string): Range
+    getRanges(address?: string): RangeAreas
+    getRangeByIndexes(startRow: number, startColumn: number, rowCount: number, columnCount: number): Range
+    getUsedRange(valuesOnly?: boolean): Range
+  }
+
+  class Range {
+    getWorksheet(): Worksheet
+    getAddress(): string
+    getRowCount(): number
+    getColumnCount(): number
+    getValues(): (string | number | boolean)[][]
+    setValues(values: (string | number | boolean)[][]): void
+    getFormulas(): string[][]
+    clear(): void
+    getFormat(): RangeFormat
+  }
+
+  class RangeAreas {
+    getAreaCount(): number
+    getAreas(): Range[]
+    getFormat(): RangeFormat
+  }
+
+  class RangeFormat {
+    getFill(): RangeFill
+    getFont(): RangeFont
+    autofitColumns(): void
+  }
+
+  class RangeFill {
+    getColor(): string
+    setColor(color: string): void
+  }
+
+  class RangeFont {
+    getBold(): boolean
+    setBold(bold: boolean): void
+    getColor(): string
+    setColor(color: string): void
+  }
+}
@@ -7,15 +7,74 @@
 // Usage:
 // - Run with ts-node or as part of your CI scripts.
 // - Ensures that Office Scripts code is testable outside of Excel Online.
+// - main returns the JSON result document of the run (see JsonReporter), the following arguments write reports
+//   built from it: `--junit <path>` (JUnit XML), `--tap <path>` (TAP version 13), `--json <path>` (JSON)
+//   `--html <path>` (self-contained HTML) and `--markdown <path>` (Markdown summary, appended to `$GITHUB_STEP_SUMMARY` by the CI workflow).
+//   Use `-` as path to write the report to the standard output, e.g. to pipe the TAP report:
+//   `npm test --silent -- --tap - | tap-parser`. The console output then goes to the standard error.
 
+import * as fs from "fs"
+import * as path from "path"
 import { ExcelScript } from "../mocks/excelscript.mock"
 import "../src/unit-test-framework"
 import "../test/main"
 
 const workbook = new ExcelScript.Workbook()
 
+// Returns the value following a command line argument, e.g. the path of `--junit <path>`
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index !== -1 ? process.argv[index + 1] : undefined
+}
+
+// Arguments of the reports written from the result document of the run
+const REPORT_ARGS = ["--junit", "--tap", "--json", "--html", "--markdown"]
+
+// Writes a report to the given path (or to the standard output for `-`), creating the parent directories
+function writeReport(file: string, content: string): void {
+  if (file === "-") {
+    process.stdout.write(`${content}\n`)
+    return
+  }
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  fs.writeFileSync(file, content, "utf8")
+  console.log(`Report written to ${file}`)
+}
+
+async function run(): Promise<void> {
+  const report: TestReport | undefined = await (globalThis as any).main(workbook)
+  if (!report) {
+    return
+  }
+  if (!report.success) { // Failed or errored test cases must fail the CI step
+    process.exitCode = 1
+  }
+  const reporters: Array<[string, { onRunEnd(summary: TestRunSummary): void, getOutput(): string }]> = [
+    ["--junit", new JUnitReporter()],
+    ["--tap", new TapReporter()],
+    ["--json", new JsonReporter()],
+    ["--html", new HtmlReporter()],
+    ["--markdown", new MarkdownReporter()]
+  ]
+  for (const [arg, reporter] of reporters) {
+    const file = argValue(arg)
+    if (file) {
+      reporter.onRunEnd(report)
+      writeReport(file, reporter.getOutput())
+    }
+  }
+}
+
+// A report written to the standard output must be parseable: the console output goes to the standard error instead
+if (REPORT_ARGS.some(arg => argValue(arg) === "-")) {
+  console.log = console.error
+}
+
 if (typeof (globalThis as any).main === "function") {
-  (globalThis as any).main(workbook)
+  run().catch(e => {
+    console.error(e)
+    process.exitCode = 1
+  })
 } else {
   console.log("No global main function found to execute tests.")
 }
\ No newline at end of file